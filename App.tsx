@@ -4,28 +4,20 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { TrafficHeroScene, SimulationScene } from './src/components/QuantumScene';
 import { FrameworkDiagram, BenchmarkResultsDiagram, NetworkCarousel } from './src/components/Diagrams';
-import { ArrowDown, Menu, X, Github, ExternalLink, Map, Activity, BarChart3, Database, Cpu, GitFork, Users, Code, Trophy, Terminal, Copy, Check, Play } from 'lucide-react';
-
-interface Author {
-    name: string;
-    affiliation: string;
-    github?: string;
-    delay: string;
-}
-
-const authors: Author[] = [
-    { name: "Ahmet Onur Akman", affiliation: "Jagiellonian University", github: "aonurakman", delay: "0s" },
-    { name: "Anastasia Psarou", affiliation: "Jagiellonian University", github: "AnastasiaPsarou", delay: "0.1s" },
-    { name: "Michał Hoffmann", affiliation: "Jagiellonian University", github: "Crackhoff", delay: "0.2s" },
-    { name: "Łukasz Gorczyca", affiliation: "Jagiellonian University", github: "Limexcyan", delay: "0.3s" },
-    { name: "Łukasz Kowalski", affiliation: "Urban Policy Observatory", github: "LukaszKowalski2013", delay: "0.4s" },
-    { name: "Paweł Gora", affiliation: "Jagiellonian University", github: "pgora", delay: "0.5s" },
-    { name: "Grzegorz Jamróz", affiliation: "Jagiellonian University", github: "GrzegorzJamroz", delay: "0.6s" },
-    { name: "Rafał Kucharski", affiliation: "Jagiellonian University", github: "RafalKucharskiPK", delay: "0.7s" },
-];
+import { FcdReplay } from './src/components/FcdReplay';
+import { NetworkCompare } from './src/components/NetworkCompare';
+import { NetworkDetails } from './src/components/NetworkDetails';
+import { NetworkViewer, useNearViewport, useSumoNetwork } from './src/components/NetworkViewer';
+import { Picture } from './src/components/Picture';
+import { ICONS, LOGO_URL, avatarUrl } from './src/data/assets';
+import { AUTHORS, Author } from './src/data/authors';
+import { DEFAULT_METRIC, getMetric } from './src/data/metrics';
+import { DATASET_NETWORK_COUNT, NETWORKS, getNetwork } from './src/data/networks';
+import { getSectionHash, readUrlState, setSectionHash } from './src/lib/urlState';
+import { ArrowDown, ArrowRight, Menu, X, Github, ExternalLink, Map, Activity, BarChart3, Database, Cpu, GitFork, Users, Code, Trophy, Terminal, Copy, Check, Play } from 'lucide-react';
 
 const AuthorCard = ({ author }: { author: Author }) => {
   return (
@@ -38,8 +30,8 @@ const AuthorCard = ({ author }: { author: Author }) => {
     >
       <div className="w-16 h-16 rounded-full overflow-hidden mb-4 border-2 border-slate-100 group-hover:border-urb-blue transition-colors relative bg-slate-100 flex items-center justify-center">
         {author.github ? (
-             <img 
-               src={`https://github.com/${author.github}.png`} 
+             <Picture 
+               src={avatarUrl(author.github)} 
                alt={author.name} 
                className="w-full h-full object-cover"
              />
@@ -64,17 +56,35 @@ const FeatureCard = ({ icon: Icon, title, desc }: { icon: any, title: string, de
 );
 
 const UrbLogo = () => (
-  <img 
-    src="https://raw.githubusercontent.com/COeXISTENCE-PROJECT/URB/refs/heads/main/docs/urb.png" 
+  <Picture 
+    src={LOGO_URL} 
     alt="URB Logo" 
+    loading="eager" 
     className="mx-auto mb-8 h-32 w-auto object-contain"
   />
 );
 
+// Drawn behind the simulation section once its network file has loaded, fetched only as the section nears the viewport
+const SIMULATION_NETWORK = getNetwork('saint_arnoult');
+
+// Sections that can be linked to with a hash, in page order
+const sectionIds = ['authors', 'overview', 'framework', 'results', 'getting-started', 'contributing'];
+
 const App: React.FC = () => {
   const [scrolled, setScrolled] = useState(false);
   const [menuOpen, setMenuOpen] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [resultsMetric, setResultsMetric] = useState(() => {
+    const metric = readUrlState().metric;
+    return metric && getMetric(metric) ? metric : DEFAULT_METRIC;
+  });
+  const [resultsView, setResultsView] = useState(() => readUrlState().view ?? 'chart');
+  const [resultsNetwork, setResultsNetwork] = useState(() => readUrlState().network);
+  const [openNetwork, setOpenNetwork] = useState<string | null>(null);
+  const networkOpener = useRef<HTMLElement | null>(null);
+  const simulationRef = useRef<HTMLElement>(null);
+  const simulationNear = useNearViewport(simulationRef);
+  const simulationNetwork = useSumoNetwork(SIMULATION_NETWORK?.networkFile, SIMULATION_NETWORK?.name ?? 'the simulation network', simulationNear);
 
   useEffect(() => {
     const handleScroll = () => setScrolled(window.scrollY > 50);
@@ -82,18 +92,74 @@ const App: React.FC = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  const scrollToSection = (id: string) => (e: React.MouseEvent) => {
-    e.preventDefault();
-    setMenuOpen(false);
+  const scrollToId = (id: string, behavior: ScrollBehavior = "smooth") => {
     const element = document.getElementById(id);
     if (element) {
       const headerOffset = 100;
       const elementPosition = element.getBoundingClientRect().top;
       const offsetPosition = elementPosition + window.pageYOffset - headerOffset;
-      window.scrollTo({ top: offsetPosition, behavior: "smooth" });
+      window.scrollTo({ top: offsetPosition, behavior });
     }
   };
 
+  const scrollToSection = (id: string) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    setMenuOpen(false);
+    scrollToId(id);
+    setSectionHash(id, true);
+  };
+
+  // Restore the section from the hash, follow back/forward, then keep the hash in sync while scrolling
+  useEffect(() => {
+    const initial = getSectionHash();
+    if (initial) scrollToId(initial, "auto");
+
+    const handlePopState = () => {
+      const id = getSectionHash();
+      if (id) scrollToId(id);
+    };
+    window.addEventListener('popstate', handlePopState);
+
+    const observer = new IntersectionObserver(entries => {
+      entries.forEach(entry => {
+        const id = entry.target.id;
+        if (entry.isIntersecting) {
+          setSectionHash(id);
+        } else if (getSectionHash() === id && entry.boundingClientRect.top > 0) {
+          // Scrolled back above the first section
+          if (id === sectionIds[0]) setSectionHash('');
+        }
+      });
+    }, { rootMargin: '-50% 0px -50% 0px' });
+    sectionIds.forEach(id => {
+      const element = document.getElementById(id);
+      if (element) observer.observe(element);
+    });
+
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      observer.disconnect();
+    };
+  }, []);
+
+  const showMetric = (metric: string) => (e: React.MouseEvent) => {
+    setResultsMetric(metric);
+    scrollToSection('results')(e);
+  };
+
+  const showResultsView = (view: string) => (e: React.MouseEvent) => {
+    setResultsView(view);
+    scrollToSection('results')(e);
+  };
+
+  const showNetworkResults = (network: string) => {
+    setOpenNetwork(null);
+    setResultsNetwork(network);
+    setResultsView('chart');
+    scrollToId('results');
+    setSectionHash('results', true);
+  };
+
   const copyCitation = () => {
     const citation = `@inproceedings{URB,
   title={URB -- Urban Routing Benchmark for RL-equipped Connected Autonomous Vehicles},
@@ -123,8 +189,8 @@ const App: React.FC = () => {
           <div className="flex items-center gap-4 cursor-pointer" onClick={() => window.scrollTo({ top: 0, behavior: 'smooth' })}>
             {/* Enlarged 1.5x (w-16 -> w-24) */}
             <div className={`transition-all duration-300 w-24 h-24`}>
-                 <img 
-                  src="https://raw.githubusercontent.com/COeXISTENCE-PROJECT/URB/refs/heads/main/docs/urb.png" 
+                 <Picture 
+                  src={LOGO_URL} 
                   alt="URB Logo" 
                   className="w-full h-full object-contain"
                 />
@@ -155,8 +221,8 @@ const App: React.FC = () => {
                 className="flex items-center gap-2 px-3 bg-white text-slate-700 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors h-10 2xl:h-12 box-border"
                 title="COeXISTENCE Project"
               >
-                <img 
-                    src="https://github.com/aonurakman/assets/blob/main/icons/coexistence_small.png?raw=true" 
+                <Picture 
+                    src={ICONS.coexistenceSmall} 
                     alt="Logo" 
                     className="h-5 2xl:h-6 w-auto object-contain" 
                 />
@@ -179,7 +245,7 @@ const App: React.FC = () => {
                 className="flex items-center gap-2 px-3 2xl:px-4 bg-red-50 text-red-700 border border-red-200 rounded-lg hover:bg-red-100 transition-colors h-10 2xl:h-12 box-border"
                 title="View Paper on ArXiv"
               >
-                <img src="https://github.com/aonurakman/assets/blob/main/icons/arxiv.svg.png?raw=true" alt="ArXiv" className="h-5 2xl:h-6 w-auto object-contain" />
+                <Picture src={ICONS.arxiv} alt="ArXiv" className="h-5 2xl:h-6 w-auto object-contain" />
                 <span className="font-semibold hidden 2xl:inline">Paper</span>
               </a>
             </div>
@@ -203,15 +269,15 @@ const App: React.FC = () => {
             <a href="#contributing" onClick={scrollToSection('contributing')}>Contributing</a>
             <div className="flex flex-col gap-4 mt-4 w-64">
               <a href="https://www.rafalkucharskilab.pl/COeXISTENCE/" className="flex items-center justify-center gap-2 px-6 py-3 bg-white border border-slate-200 text-slate-700 rounded-lg">
-                <img 
-                    src="https://github.com/aonurakman/assets/blob/main/icons/coexistence_small.png?raw=true" 
+                <Picture 
+                    src={ICONS.coexistenceSmall} 
                     alt="Logo" 
                     className="h-6 w-auto object-contain" 
                 />
                 <span className="font-semibold">COeXISTENCE</span>
               </a>
               <a href="https://arxiv.org/abs/2505.17734" className="flex items-center justify-center gap-2 px-6 py-3 bg-red-50 text-red-700 border border-red-200 rounded-lg">
-                <img src="https://github.com/aonurakman/assets/blob/main/icons/arxiv.svg.png?raw=true" alt="ArXiv" className="h-6 w-auto object-contain" />
+                <Picture src={ICONS.arxiv} alt="ArXiv" className="h-6 w-auto object-contain" />
                 <span className="font-semibold ml-2">Paper</span>
               </a>
               <a href="https://github.com/COeXISTENCE-PROJECT/URB" className="flex items-center justify-center gap-2 px-6 py-3 bg-slate-900 text-white rounded-lg">
@@ -268,11 +334,11 @@ const App: React.FC = () => {
                 rel="noopener noreferrer" 
                 className="px-8 py-3 bg-red-50 text-red-700 font-medium rounded-lg border border-red-200 hover:bg-red-100 transition-colors shadow-lg shadow-red-500/10 flex items-center justify-center gap-2"
              >
-                <img src="https://github.com/aonurakman/assets/blob/main/icons/arxiv.svg.png?raw=true" className="h-5 w-auto object-contain" alt="ArXiv" />
+                <Picture src={ICONS.arxiv} className="h-5 w-auto object-contain" alt="ArXiv" />
                 <span>Paper</span>
              </a>
              <a href="https://doi.org/10.34740/kaggle/ds/7406751" target="_blank" rel="noopener noreferrer" className="px-8 py-3 bg-white text-slate-700 font-medium rounded-lg border border-slate-200 hover:border-slate-300 hover:bg-slate-50 transition-colors flex items-center justify-center gap-2">
-                <img src="https://upload.wikimedia.org/wikipedia/commons/thumb/f/f4/Kaggle_Logo.svg/2560px-Kaggle_Logo.svg.png" className="h-4 w-auto object-contain" alt="Kaggle" />
+                <Picture src={ICONS.kaggle} className="h-4 w-auto object-contain" alt="Kaggle" />
                 <span>Get Data</span>
              </a>
           </div>
@@ -294,7 +360,7 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                    {authors.map((author, index) => (
+                    {AUTHORS.map((author, index) => (
                         <AuthorCard key={index} author={author} />
                     ))}
                 </div>
@@ -315,7 +381,7 @@ const App: React.FC = () => {
                      <strong>URB</strong> fills this gap. It integrates the microscopic traffic simulator SUMO with <strong>RL-based solutions</strong> to create a realistic testing ground. It features <strong>29 real-world networks</strong>, calibrated demand patterns, and a suite of baseline algorithms.
                    </p>
                    <div className="flex flex-wrap gap-4 mt-8">
-                      <div className="px-4 py-2 bg-slate-50 border border-slate-100 rounded-md text-sm font-semibold text-slate-600">29 Networks</div>
+                      <div className="px-4 py-2 bg-slate-50 border border-slate-100 rounded-md text-sm font-semibold text-slate-600">{DATASET_NETWORK_COUNT} Networks</div>
                       <div className="px-4 py-2 bg-slate-50 border border-slate-100 rounded-md text-sm font-semibold text-slate-600">SUMO Integration</div>
                       <div className="px-4 py-2 bg-slate-50 border border-slate-100 rounded-md text-sm font-semibold text-slate-600">Baselines</div>
                    </div>
@@ -383,7 +449,11 @@ const App: React.FC = () => {
                             <div className="space-y-3 text-sm">
                                 <div className="flex justify-between p-2 bg-white rounded border border-slate-200">
                                     <span className="text-slate-500">Regions</span>
-                                    <span className="font-mono font-medium">29</span>
+                                    <span className="font-mono font-medium">{DATASET_NETWORK_COUNT}</span>
+                                </div>
+                                <div className="flex justify-between p-2 bg-white rounded border border-slate-200">
+                                    <span className="text-slate-500">Listed on this site</span>
+                                    <span className="font-mono font-medium">{NETWORKS.length} of {DATASET_NETWORK_COUNT}</span>
                                 </div>
                                 <div className="flex justify-between p-2 bg-white rounded border border-slate-200">
                                     <span className="text-slate-500">Total Agents</span>
@@ -398,16 +468,28 @@ const App: React.FC = () => {
                     </div>
                     
                     <div className="mt-8 pt-8 border-t border-slate-100">
-                        <NetworkCarousel />
+                        <NetworkCarousel onSelect={(id, opener) => { networkOpener.current = opener; setOpenNetwork(id); }} />
+                    </div>
+
+                    <div className="mt-8 pt-8 border-t border-slate-100">
+                        <h4 className="font-bold text-slate-900 mb-2">Inspect a network</h4>
+                        <p className="text-sm text-slate-500 mb-4">Roads, lanes and junctions straight from the SUMO network files used in the experiments.</p>
+                        <NetworkViewer />
+                    </div>
+
+                    <div className="mt-8 pt-8 border-t border-slate-100">
+                        <h4 className="font-bold text-slate-900 mb-2">Compare networks</h4>
+                        <p className="text-sm text-slate-500 mb-4">Size, topology, demand and results of candidate networks side by side.</p>
+                        <NetworkCompare />
                     </div>
                 </div>
             </div>
         </section>
 
         {/* Simulation Visual */}
-        <section className="py-24 bg-slate-900 text-white overflow-hidden relative">
+        <section ref={simulationRef} className="py-24 bg-slate-900 text-white overflow-hidden relative">
             <div className="absolute inset-0 z-0 opacity-30">
-                <SimulationScene />
+                <SimulationScene network={simulationNetwork.status === 'ready' ? simulationNetwork.network : undefined} />
             </div>
             <div className="container mx-auto px-6 relative z-10 text-center">
                  <h2 className="text-3xl md:text-5xl font-bold mb-8">Microscopic Simulation</h2>
@@ -431,6 +513,11 @@ const App: React.FC = () => {
                         <div className="text-xs text-slate-400">Interaction between human drivers and algorithmic CAV agents</div>
                     </div>
                  </div>
+                 <div className="max-w-4xl mx-auto mt-16">
+                    <h3 className="text-xl font-bold text-white mb-2">Replay an episode</h3>
+                    <p className="text-sm text-slate-400 mb-6">Recorded vehicle trajectories from SUMO, with CAVs and human drivers on the same roads. Open a recording from disk; none is bundled with this site yet.</p>
+                    <FcdReplay initialNetwork={SIMULATION_NETWORK?.id} />
+                 </div>
             </div>
         </section>
 
@@ -450,17 +537,23 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="bg-slate-50 rounded-2xl p-8 border border-slate-200 shadow-sm">
-                    <BenchmarkResultsDiagram />
+                    <BenchmarkResultsDiagram metric={resultsMetric} onMetricChange={setResultsMetric} view={resultsView} onViewChange={setResultsView} network={resultsNetwork} onNetworkChange={setResultsNetwork} />
                 </div>
                 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mt-12">
                     <div className="bg-red-50 p-6 rounded-lg border border-red-100">
                         <h4 className="font-bold text-red-800 mb-2">Scaling Issues</h4>
                         <p className="text-sm text-red-700">Algorithms that work on small maps (St. Arnoult) fail to converge or improve upon baselines in larger networks (Ingolstadt).</p>
+                        <a href="#results" onClick={showResultsView('scaling')} className="inline-flex items-center gap-1 mt-3 text-xs font-bold text-red-800 hover:underline">
+                            View performance vs. scale <ArrowRight size={12} />
+                        </a>
                     </div>
                     <div className="bg-yellow-50 p-6 rounded-lg border border-yellow-100">
                         <h4 className="font-bold text-yellow-800 mb-2">Cost of Training</h4>
                         <p className="text-sm text-yellow-700">Training involves exploring suboptimal routes, causing regret and delays for all commuters during the learning phase.</p>
+                        <a href="#results" onClick={showMetric('c_train')} className="inline-flex items-center gap-1 mt-3 text-xs font-bold text-yellow-800 hover:underline">
+                            View training cost <ArrowRight size={12} />
+                        </a>
                     </div>
                     <div className="bg-blue-50 p-6 rounded-lg border border-blue-100">
                         <h4 className="font-bold text-blue-800 mb-2">Future Work</h4>
@@ -601,16 +694,16 @@ const App: React.FC = () => {
                 <p className="text-center text-sm font-bold text-slate-400 uppercase tracking-widest mb-8">Supported By</p>
                 <div className="flex flex-wrap justify-center items-center gap-12 md:gap-16 grayscale hover:grayscale-0 transition-all duration-500">
                     <a href="https://en.uj.edu.pl/en_GB/start" target="_blank" rel="noopener noreferrer" className="opacity-60 hover:opacity-100 transition-opacity">
-                        <img src="https://github.com/aonurakman/assets/blob/main/icons/uj.png?raw=true" alt="Jagiellonian University" className="h-16 w-auto object-contain" />
+                        <Picture src={ICONS.uj} alt="Jagiellonian University" className="h-16 w-auto object-contain" />
                     </a>
                     <a href="https://www.rafalkucharskilab.pl/COeXISTENCE/" target="_blank" rel="noopener noreferrer" className="opacity-60 hover:opacity-100 transition-opacity">
-                        <img src="https://github.com/aonurakman/assets/blob/main/icons/coexistence.png?raw=true" alt="COeXISTENCE" className="h-12 w-auto object-contain" />
+                        <Picture src={ICONS.coexistence} alt="COeXISTENCE" className="h-12 w-auto object-contain" />
                     </a>
                     <a href="https://www.gmum.net" target="_blank" rel="noopener noreferrer" className="opacity-60 hover:opacity-100 transition-opacity">
-                        <img src="https://github.com/aonurakman/assets/blob/main/icons/gmum.png?raw=true" alt="GMUM" className="h-10 w-auto object-contain" />
+                        <Picture src={ICONS.gmum} alt="GMUM" className="h-10 w-auto object-contain" />
                     </a>
                     <a href="https://erc.europa.eu/homepage" target="_blank" rel="noopener noreferrer" className="opacity-60 hover:opacity-100 transition-opacity">
-                        <img src="https://github.com/aonurakman/assets/blob/main/icons/erc.png?raw=true" alt="ERC" className="h-16 w-auto object-contain" />
+                        <Picture src={ICONS.erc} alt="ERC" className="h-16 w-auto object-contain" />
                     </a>
                 </div>
             </div>
@@ -632,6 +725,8 @@ const App: React.FC = () => {
             </div>
         </div>
       </footer>
+
+      {openNetwork && <NetworkDetails networkId={openNetwork} onClose={() => setOpenNetwork(null)} onShowResults={showNetworkResults} returnFocus={networkOpener} />}
     </div>
   );
 };
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Validate leaderboard results files offline.
+//
+//   npm run validate-results                     # every file in src/data/results
+//   npm run validate-results -- my-results.json  # specific files
+//
+// Exits with status 1 if any file is invalid.
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { formatValidationErrors, validateResultsFile } from '../src/lib/validateResults';
+
+const RESULTS_DIR = join(import.meta.dirname, '..', 'src', 'data', 'results');
+
+const files = process.argv.slice(2).length > 0
+    ? process.argv.slice(2)
+    : readdirSync(RESULTS_DIR).filter(f => f.endsWith('.json')).map(f => join(RESULTS_DIR, f));
+
+let failed = 0;
+
+for (const file of files) {
+    const name = relative(process.cwd(), file);
+    let input: unknown;
+    try {
+        input = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (err) {
+        console.error(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+        failed++;
+        continue;
+    }
+
+    const { valid, errors } = validateResultsFile(input);
+    if (valid) {
+        console.log(`${name}: ok`);
+    } else {
+        console.error(formatValidationErrors(errors, name));
+        console.error(`${name}: ${errors.length} error${errors.length === 1 ? '' : 's'}`);
+        failed++;
+    }
+}
+
+if (failed > 0) process.exitCode = 1;
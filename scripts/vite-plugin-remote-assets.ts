@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Vendor third-party images, fonts, environment maps and network data into the build.
+//
+// Each asset in src/data/assets.ts is downloaded once (cached in node_modules/.cache),
+// then emitted under dist/assets with a content hash. Raster images are resized to
+// their display size at 1x and 2x and re-encoded as AVIF and WebP, keeping the original
+// format as the fallback. The URLs are exposed to the app as `virtual:remote-assets`.
+//
+// A download that fails is reported as a warning and the app keeps the remote URL, so
+// an offline build still succeeds. The dev server always uses the remote URLs.
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import sharp from 'sharp';
+import type { Plugin } from 'vite';
+import type { RemoteAsset } from '../src/data/assets';
+
+const MODULE_ID = 'virtual:remote-assets';
+const RESOLVED_ID = '\0' + MODULE_ID;
+const CACHE_DIR = join(import.meta.dirname, '..', 'node_modules', '.cache', 'remote-assets');
+const TIMEOUT = 20_000; // ms per download
+const RASTER_FORMATS = new Set(['png', 'jpeg', 'webp', 'tiff']);
+
+/** Mirrors VendoredAsset in src/lib/assets.ts. */
+interface Vendored {
+    src: string;
+    srcSet?: string;
+    avif?: string;
+    webp?: string;
+}
+
+const sha1 = (data: string | Buffer) => createHash('sha1').update(data).digest('hex');
+
+const download = async (url: string): Promise<Buffer> => {
+    const cached = join(CACHE_DIR, sha1(url));
+    try {
+        return await readFile(cached);
+    } catch {
+        // Not cached yet
+    }
+    const res = await fetch(url, { signal: AbortSignal.timeout(TIMEOUT) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = Buffer.from(await res.arrayBuffer());
+    await mkdir(CACHE_DIR, { recursive: true });
+    await writeFile(cached, data);
+    return data;
+};
+
+/** Extension from the URL path, ignoring query strings like ?raw=true. */
+const urlExtension = (url: string) => extname(new URL(url).pathname).slice(1).toLowerCase() || 'bin';
+
+/** Pixel sizes to render along the constrained side: 1x and 2x, never upscaled. */
+const scales = (target: number, source: number) => [...new Set([Math.min(target, source), Math.min(target * 2, source)])];
+
+const srcSet = (urls: string[]) => urls.length === 1 ? undefined : urls.map((u, i) => `${u} ${i + 1}x`).join(', ');
+
+export const remoteAssets = (assets: RemoteAsset[]): Plugin => {
+    let isBuild = false;
+    let base = '/';
+    const vendored: Record<string, Vendored> = {};
+
+    return {
+        name: 'remote-assets',
+
+        configResolved(config) {
+            isBuild = config.command === 'build';
+            base = config.base;
+        },
+
+        async buildStart() {
+            if (!isBuild) return;
+
+            const emit = (name: string, ext: string, source: Buffer) => {
+                const fileName = `assets/${name}-${sha1(source).slice(0, 8)}.${ext}`;
+                this.emitFile({ type: 'asset', fileName, source });
+                return base + fileName;
+            };
+
+            const vendor = async (asset: RemoteAsset): Promise<Vendored> => {
+                const data = await download(asset.url);
+                const meta = await sharp(data).metadata().catch(() => null);
+
+                // Fonts, environment maps, SVGs, animations and network data are shipped as they are
+                if (!meta?.format || !RASTER_FORMATS.has(meta.format) || !meta.width || !meta.height || (meta.pages ?? 1) > 1) {
+                    return { src: emit(asset.name, urlExtension(asset.url), data) };
+                }
+
+                const side = asset.height ? 'height' : 'width';
+                const sizes = scales(asset[side] ?? meta[side]!, meta[side]!);
+                const format = meta.format === 'jpeg' ? 'jpeg' : 'png';
+                const render = async (ext: string, encode: (img: sharp.Sharp) => sharp.Sharp) =>
+                    Promise.all(sizes.map(async size => emit(asset.name, ext, await encode(sharp(data).resize(side === 'height' ? { height: size } : { width: size })).toBuffer())));
+
+                const [fallback, webp, avif] = await Promise.all([
+                    render(format === 'jpeg' ? 'jpg' : 'png', img => img.toFormat(format)),
+                    render('webp', img => img.webp({ quality: 82 })),
+                    render('avif', img => img.avif({ quality: 55 })),
+                ]);
+                return { src: fallback[fallback.length - 1], srcSet: srcSet(fallback), webp: srcSet(webp) ?? webp[0], avif: srcSet(avif) ?? avif[0] };
+            };
+
+            // One at a time keeps memory flat while sharp decodes the larger images
+            for (const asset of assets) {
+                if (vendored[asset.url]) continue;
+                try {
+                    vendored[asset.url] = await vendor(asset);
+                } catch (err) {
+                    this.warn(`${asset.url}: ${err instanceof Error ? err.message : String(err)}; the site will load it remotely`);
+                }
+            }
+        },
+
+        resolveId(id) {
+            return id === MODULE_ID ? RESOLVED_ID : null;
+        },
+
+        load(id) {
+            return id === RESOLVED_ID ? `export default ${JSON.stringify(vendored)};` : null;
+        },
+    };
+};
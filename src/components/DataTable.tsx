@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useId, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, BarChart3, Table } from 'lucide-react';
+
+// --- CHART DATA TABLES ---
+// Every chart can be swapped for a plain, sortable <table> of the numbers it draws.
+
+export interface DataColumn<Row> {
+    id: string;
+    header: string;
+    unit?: string; // Shown in the header, e.g. "min" or "%"
+    value: (row: Row) => number | string | undefined; // Used for sorting
+    format?: (row: Row) => string; // Defaults to the value
+    numeric?: boolean;
+}
+
+interface DataTableProps<Row> {
+    caption: string;
+    columns: DataColumn<Row>[];
+    rows: Row[];
+    rowKey: (row: Row) => string;
+}
+
+/** Missing values always sink to the bottom. */
+const compare = (a: number | string | undefined, b: number | string | undefined) => {
+    if (a === undefined && b === undefined) return 0;
+    if (a === undefined) return 1;
+    if (b === undefined) return -1;
+    return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+};
+
+export const DataTable = <Row,>({ caption, columns, rows, rowKey }: DataTableProps<Row>) => {
+    const [sort, setSort] = useState<{ column: string, ascending: boolean } | null>(null);
+
+    const column = sort && columns.find(c => c.id === sort.column);
+    const sorted = column
+        ? [...rows].sort((a, b) => {
+            const va = column.value(a);
+            const vb = column.value(b);
+            if (va === undefined || vb === undefined) return compare(va, vb);
+            return (sort!.ascending ? 1 : -1) * compare(va, vb);
+        })
+        : rows;
+
+    const sortBy = (id: string) =>
+        setSort(prev => prev?.column === id ? { column: id, ascending: !prev.ascending } : { column: id, ascending: true });
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <caption className="text-left text-xs text-slate-500 pb-2">{caption}</caption>
+                <thead>
+                    <tr className="text-[10px] text-slate-400 uppercase tracking-wider">
+                        {columns.map(c => {
+                            const active = sort?.column === c.id;
+                            const Icon = !active ? ArrowUpDown : sort!.ascending ? ArrowUp : ArrowDown;
+                            return (
+                                <th key={c.id} scope="col" className={`px-3 py-2 font-semibold ${c.numeric ? 'text-right' : 'text-left'}`} aria-sort={active ? (sort!.ascending ? 'ascending' : 'descending') : 'none'}>
+                                    <button onClick={() => sortBy(c.id)} className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-urb-blue transition-colors ${active ? 'text-urb-blue' : ''}`}>
+                                        {c.header}{c.unit && <span className="normal-case font-mono">({c.unit})</span>}
+                                        <Icon size={12} aria-hidden="true" />
+                                    </button>
+                                </th>
+                            );
+                        })}
+                    </tr>
+                </thead>
+                <tbody>
+                    {sorted.map(row => (
+                        <tr key={rowKey(row)} className="border-t border-slate-100">
+                            {columns.map((c, i) => {
+                                const text = c.format ? c.format(row) : String(c.value(row) ?? '—');
+                                return i === 0
+                                    ? <th key={c.id} scope="row" className="px-3 py-2 text-left font-semibold text-slate-900 whitespace-nowrap">{text}</th>
+                                    : <td key={c.id} className={`px-3 py-2 ${c.numeric ? 'text-right font-mono text-xs' : ''} text-slate-700 whitespace-nowrap`}>{text}</td>;
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+interface ChartFigureProps {
+    summary: string; // Key finding, read out as the chart's description
+    table: React.ReactNode;
+    children: React.ReactNode; // The chart
+}
+
+/** A chart with a screen-reader summary and a Chart/Table switch. */
+export const ChartFigure: React.FC<ChartFigureProps> = ({ summary, table, children }) => {
+    const [showTable, setShowTable] = useState(false);
+    const id = useId();
+
+    return (
+        <figure className="flex flex-col gap-3" aria-describedby={`${id}-summary`}>
+            <div className="flex justify-end -mb-1">
+                <button
+                    onClick={() => setShowTable(!showTable)}
+                    aria-pressed={showTable}
+                    aria-controls={`${id}-content`}
+                    className="inline-flex items-center gap-1.5 px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider text-slate-500 hover:text-slate-900 transition-colors"
+                >
+                    {showTable ? <BarChart3 size={12} aria-hidden="true" /> : <Table size={12} aria-hidden="true" />}
+                    {showTable ? 'Show chart' : 'Show table'}
+                </button>
+            </div>
+            <div id={`${id}-content`} className="flex flex-col gap-3">
+                {showTable ? table : children}
+            </div>
+            <figcaption id={`${id}-summary`} className="sr-only">{summary}</figcaption>
+        </figure>
+    );
+};
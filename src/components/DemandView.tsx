@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { FileUp, Users } from 'lucide-react';
+import { Demand, HistogramBin, countBy, demandLocator, departureHistogram, odPairs, parseDemandFile } from '../lib/demand';
+import { Point, SumoNetwork } from '../lib/sumoNetwork';
+import { niceTicks } from '../lib/ticks';
+import { ChartFigure, DataColumn, DataTable } from './DataTable';
+import { NetworkMap, toSvg } from './NetworkMap';
+
+// --- DEMAND VIEW ---
+// Origin–destination flows drawn over the network, a departure histogram and an O/D filter.
+
+const MAX_FLOWS = 300; // Busiest pairs drawn; the rest are summarized
+const ORIGIN_COLOR = '#10b981';
+const DESTINATION_COLOR = '#e11d48';
+const FLOW_COLOR = '#2563EB';
+
+/** Seconds since the start of the simulation as h:mm. */
+export const formatClock = (s: number) => `${Math.floor(s / 3600)}:${String(Math.floor((s % 3600) / 60)).padStart(2, '0')}`;
+
+/** Flows bend to their right, so A→B and B→A stay apart. */
+const flowPath = (from: Point, to: Point) => {
+    const [x1, y1] = toSvg(from);
+    const [x2, y2] = toSvg(to);
+    const bend = 0.2;
+    const cx = (x1 + x2) / 2 - (y2 - y1) * bend;
+    const cy = (y1 + y2) / 2 + (x2 - x1) * bend;
+    return `M${x1.toFixed(1)} ${y1.toFixed(1)}Q${cx.toFixed(1)} ${cy.toFixed(1)} ${x2.toFixed(1)} ${y2.toFixed(1)}`;
+};
+
+/** A dot that keeps its size in pixels at every zoom level. */
+const dotPath = (p: Point) => {
+    const [x, y] = toSvg(p);
+    return `M${x.toFixed(1)} ${y.toFixed(1)}h0`;
+};
+
+const HIST_WIDTH = 720;
+const HIST_HEIGHT = 160;
+const HIST_MARGIN = { left: 40, right: 8, top: 8, bottom: 28 };
+
+interface DepartureHistogramProps {
+    bins: HistogramBin[];
+    label: string;
+    maxCount?: number; // Shared y scale when histograms are compared
+}
+
+export const DepartureHistogram: React.FC<DepartureHistogramProps> = ({ bins, label, maxCount }) => {
+    if (bins.length === 0) return <p className="text-xs text-slate-400">No departures.</p>;
+    const top = maxCount ?? Math.max(...bins.map(b => b.count));
+    const start = bins[0].start;
+    const end = bins[bins.length - 1].end;
+    const x = (s: number) => HIST_MARGIN.left + ((s - start) / (end - start)) * (HIST_WIDTH - HIST_MARGIN.left - HIST_MARGIN.right);
+    const y = (n: number) => HIST_MARGIN.top + (1 - n / (top || 1)) * (HIST_HEIGHT - HIST_MARGIN.top - HIST_MARGIN.bottom);
+    const { ticks: yTicks } = niceTicks(0, top || 1, 3);
+    const { ticks: xTicks } = niceTicks(start, end, 6);
+    const peak = bins.reduce((a, b) => b.count > a.count ? b : a);
+
+    const columns: DataColumn<HistogramBin>[] = [
+        { id: 'start', header: 'From', value: b => b.start, format: b => formatClock(b.start) },
+        { id: 'end', header: 'To', value: b => b.end, format: b => formatClock(b.end) },
+        { id: 'count', header: 'Departures', value: b => b.count, numeric: true },
+    ];
+
+    return (
+        <ChartFigure
+            summary={`${bins.reduce((n, b) => n + b.count, 0)} departures between ${formatClock(start)} and ${formatClock(end)}; the busiest interval is ${formatClock(peak.start)}–${formatClock(peak.end)} with ${peak.count}.`}
+            table={<DataTable caption={`Departures per interval, ${label}`} columns={columns} rows={bins} rowKey={b => String(b.start)} />}
+        >
+            <svg viewBox={`0 0 ${HIST_WIDTH} ${HIST_HEIGHT}`} className="w-full h-auto" role="img" aria-label={`Departure times, ${label}`}>
+                {yTicks.map(t => (
+                    <g key={t}>
+                        <line x1={HIST_MARGIN.left} x2={HIST_WIDTH - HIST_MARGIN.right} y1={y(t)} y2={y(t)} stroke="#f1f5f9" />
+                        <text x={HIST_MARGIN.left - 6} y={y(t) + 3} textAnchor="end" fontSize="10" fill="#94a3b8" fontFamily="JetBrains Mono, monospace">{t}</text>
+                    </g>
+                ))}
+                {bins.map(b => (
+                    <rect key={b.start} x={x(b.start) + 0.5} y={y(b.count)} width={Math.max(x(b.end) - x(b.start) - 1, 0.5)} height={y(0) - y(b.count)} fill={FLOW_COLOR} opacity={0.7}>
+                        <title>{formatClock(b.start)}–{formatClock(b.end)}: {b.count}</title>
+                    </rect>
+                ))}
+                {xTicks.map(t => (
+                    <text key={t} x={x(t)} y={HIST_HEIGHT - HIST_MARGIN.bottom + 14} textAnchor="middle" fontSize="10" fill="#94a3b8" fontFamily="JetBrains Mono, monospace">{formatClock(t)}</text>
+                ))}
+            </svg>
+        </ChartFigure>
+    );
+};
+
+interface DemandViewProps {
+    network: SumoNetwork;
+    label: string;
+}
+
+export const DemandView: React.FC<DemandViewProps> = ({ network, label }) => {
+    const [demand, setDemand] = useState<Demand | null>(null);
+    const [source, setSource] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [origin, setOrigin] = useState('');
+    const [destination, setDestination] = useState('');
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const showDemand = (next: Demand, name: string) => {
+        setDemand(next);
+        setSource(name);
+        setOrigin('');
+        setDestination('');
+        setError(null);
+    };
+
+    const loadFile = async (file: File) => {
+        try {
+            showDemand(parseDemandFile(await file.text()), file.name);
+        } catch (err) {
+            setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const locate = useMemo(() => demandLocator(network), [network]);
+    const trips = useMemo(() => (demand?.trips ?? []).filter(t => (!origin || t.origin === origin) && (!destination || t.destination === destination)), [demand, origin, destination]);
+    const pairs = useMemo(() => odPairs(trips), [trips]);
+    const origins = useMemo(() => countBy(demand?.trips ?? [], 'origin'), [demand]);
+    const destinations = useMemo(() => countBy(demand?.trips ?? [], 'destination'), [demand]);
+    const bins = useMemo(() => departureHistogram(trips), [trips]);
+
+    const openButton = (
+        <>
+            <input ref={inputRef} type="file" accept=".xml,.csv,text/csv" onChange={e => { const file = e.target.files?.[0]; if (file) loadFile(file); e.target.value = ''; }} className="hidden" />
+            <button
+                onClick={() => inputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold uppercase tracking-wider text-slate-600 hover:bg-slate-100 transition-colors"
+            >
+                <FileUp size={14} /> Open demand
+            </button>
+        </>
+    );
+
+    if (!demand) {
+        return (
+            <div className="h-[28rem] flex flex-col items-center justify-center gap-3 text-center bg-slate-50 rounded-lg border border-slate-200 p-6">
+                <Users size={24} className="text-slate-300" />
+                <p className="text-sm font-medium text-slate-600">No demand file is loaded for {label}.</p>
+                <p className="text-xs text-slate-400 max-w-md">
+                    No demand files are bundled with this site yet. Open a SUMO routes file (.rou.xml) or a URB agents CSV with origin, destination and start_time columns.
+                    Origins and destinations are matched to edge or junction ids of this network.
+                </p>
+                {openButton}
+                {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+            </div>
+        );
+    }
+
+    // Only pairs whose ends exist in this network can be drawn
+    const located = pairs.flatMap(p => {
+        const from = locate(p.origin);
+        const to = locate(p.destination);
+        return from && to ? [{ ...p, from, to }] : [];
+    });
+    const drawn = located.slice(0, MAX_FLOWS);
+    const unlocated = pairs.reduce((n, p) => n + (locate(p.origin) && locate(p.destination) ? 0 : p.trips), 0);
+    const maxTrips = Math.max(1, ...drawn.map(p => p.trips));
+    const flowWidth = (n: number) => 1 + 7 * Math.sqrt(n / maxTrips);
+    const maxEnd = Math.max(1, ...origins.map(o => o[1]), ...destinations.map(d => d[1]));
+    const dotSize = (n: number) => 6 + 14 * Math.sqrt(n / maxEnd);
+    const filterLabel = [origin && `from ${origin}`, destination && `to ${destination}`].filter(Boolean).join(' ') || 'all trips';
+
+    const endDots = (list: [string, number][], color: string, selected: string, select: (id: string) => void, kind: string) =>
+        list.map(([id, n]) => {
+            const p = locate(id);
+            if (!p) return null;
+            return (
+                <path
+                    key={`${kind}:${id}`}
+                    d={dotPath(p)}
+                    stroke={color}
+                    strokeWidth={dotSize(n)}
+                    strokeLinecap="round"
+                    vectorEffect="non-scaling-stroke"
+                    opacity={selected && selected !== id ? 0.25 : 0.9}
+                    className="cursor-pointer"
+                    // Pointer down rather than click: the map captures the pointer for panning
+                    onPointerDown={e => { e.stopPropagation(); select(selected === id ? '' : id); }}
+                >
+                    <title>{kind} {id}: {n} trips</title>
+                </path>
+            );
+        });
+
+    const selectStyle = 'bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-medium text-slate-900 max-w-[12rem]';
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
+                    <label className="flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ORIGIN_COLOR }}></span> Origin
+                        <select value={origin} onChange={e => setOrigin(e.target.value)} className={selectStyle}>
+                            <option value="">All ({origins.length})</option>
+                            {origins.map(([id, n]) => <option key={id} value={id}>{id} · {n}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: DESTINATION_COLOR }}></span> Destination
+                        <select value={destination} onChange={e => setDestination(e.target.value)} className={selectStyle}>
+                            <option value="">All ({destinations.length})</option>
+                            {destinations.map(([id, n]) => <option key={id} value={id}>{id} · {n}</option>)}
+                        </select>
+                    </label>
+                </div>
+                {openButton}
+            </div>
+
+            <NetworkMap network={network} label={label} muted>
+                <g fill="none" strokeLinecap="round" pointerEvents="none">
+                    {drawn.map(p => (
+                        <path key={`${p.origin}>${p.destination}`} d={flowPath(p.from, p.to)} stroke={FLOW_COLOR} strokeWidth={flowWidth(p.trips)} strokeOpacity={0.45} vectorEffect="non-scaling-stroke" />
+                    ))}
+                </g>
+                {endDots(origins, ORIGIN_COLOR, origin, setOrigin, 'Origin')}
+                {endDots(destinations, DESTINATION_COLOR, destination, setDestination, 'Destination')}
+            </NetworkMap>
+
+            <div className="flex flex-wrap justify-between gap-x-6 gap-y-1 text-xs text-slate-500">
+                <span className="font-mono">{source}</span>
+                <span>
+                    <strong className="text-slate-900">{trips.length.toLocaleString()}</strong> trips ({filterLabel}) ·{' '}
+                    <strong className="text-slate-900">{pairs.length.toLocaleString()}</strong> O/D pairs
+                    {located.length > MAX_FLOWS && ` · busiest ${MAX_FLOWS} drawn`}
+                </span>
+                <span>Flows bend to their right; click a dot to filter by it.</span>
+            </div>
+            {unlocated > 0 && (
+                <p className="text-xs text-amber-700">{unlocated.toLocaleString()} trips start or end at ids that are not in this network and are left off the map.</p>
+            )}
+            {demand.warnings.map(w => <p key={w} className="text-xs text-amber-700">{w}</p>)}
+
+            <div>
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Departures</h4>
+                <DepartureHistogram bins={bins} label={`${label}, ${filterLabel}`} />
+            </div>
+            {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+        </div>
+    );
+};
@@ -4,51 +4,155 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
-import { motion } from 'framer-motion';
-import { Brain, TrendingUp, Map as MapIcon, ChevronRight, Activity } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { animate, motion, useAnimationFrame, useMotionValue, useReducedMotion } from 'framer-motion';
+import { Brain, TrendingUp, Map as MapIcon, ChevronRight, Check, Link as LinkIcon, Pause, Play } from 'lucide-react';
+import { AlgorithmFamily, FAMILY_LABELS } from '../data/algorithms';
+import { DEFAULT_METRIC, getMetric } from '../data/metrics';
+import { NETWORKS, NetworkInfo, SIZE_LABELS, getNetwork } from '../data/networks';
+import { LATEST_RELEASE, getRelease } from '../data/releases';
+import { HUMAN_BASELINE, filterEntries, getMetricValue, getNetworkEntries, getReferenceResult, getResultNetworks, reportedMetrics, resolveAlgorithm } from '../data/results';
+import { AxisMode, DistributionMode } from '../lib/barAxis';
+import { mergeRun } from '../lib/runUpload';
+import { pickKnown, readUrlState, writeUrlState } from '../lib/urlState';
+import { ExportMenu } from './ExportMenu';
+import { Leaderboard } from './Leaderboard';
+import { LearningCurves } from './LearningCurves';
+import { NetworkPicker } from './NetworkPicker';
+import { Picture } from './Picture';
+import { ReleaseBar } from './ReleaseBar';
+import { ReleaseDiff } from './ReleaseDiff';
+import { AXIS_MODES, ResultsBarChart } from './ResultsChart';
+import { ResultsHeatmap } from './ResultsHeatmap';
+import { ResultsRanking } from './ResultsRanking';
+import { ResultsScatter } from './ResultsScatter';
+import { LoadedRun, RunUpload } from './RunUpload';
+import { WinRatePanel } from './WinRatePanel';
 
 // --- NETWORK CAROUSEL ---
-export const NetworkCarousel: React.FC = () => {
-  const networks = [
-    { id: 'beynes', name: 'Beynes' },
-    { id: 'provins', name: 'Provins' },
-    { id: 'saint_arnoult', name: 'Saint-Arnoult' },
-    { id: 'nemours', name: 'Nemours' },
-    { id: 'rambouillet', name: 'Rambouillet' },
-    { id: 'melun', name: 'Melun' },
-    { id: 'meaux', name: 'Meaux' },
-    { id: 'coulommiers', name: 'Coulommiers' },
-    { id: 'etampes', name: 'Étampes' },
-    { id: 'nangis', name: 'Nangis' },
-  ];
+const CAROUSEL_PERIOD = 50000; // ms for the whole list to scroll past once
+
+export const NetworkCarousel: React.FC<{ onSelect?: (id: string, opener: HTMLElement) => void }> = ({ onSelect }) => {
+  // Only networks with a published map image are shown here
+  const networks = NETWORKS.filter(net => net.image);
+  const reduceMotion = useReducedMotion();
+  const [playing, setPlaying] = useState(true);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const [active, setActive] = useState(0); // Roving tab stop
+  const containerRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const x = useMotionValue(0);
+  const running = playing && !hovered && !focused && !reduceMotion;
+
+  /** Distance between an item and its duplicate: one full loop of the marquee. */
+  const loopWidth = () => {
+    const first = itemRefs.current[0], copy = itemRefs.current[networks.length];
+    return first && copy ? copy.offsetLeft - first.offsetLeft : 0;
+  };
+
+  useAnimationFrame((_, delta) => {
+    const width = loopWidth();
+    if (!running || width === 0) return;
+    let next = x.get() - (delta * width) / CAROUSEL_PERIOD;
+    if (next <= -width) next += width;
+    x.set(next);
+  });
+
+  /** Slide the marquee so the focused item sits in the middle. */
+  const showItem = (i: number) => {
+    const container = containerRef.current, item = itemRefs.current[i];
+    if (!container || !item || reduceMotion) return;
+    container.scrollLeft = 0; // Undo the browser's own scroll-into-view on focus
+    const track = item.parentElement!;
+    const target = container.clientWidth / 2 - (item.offsetLeft + item.offsetWidth / 2);
+    animate(x, Math.min(0, Math.max(target, container.clientWidth - track.scrollWidth)), { duration: 0.4 });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const moves: Record<string, number> = { ArrowRight: active + 1, ArrowLeft: active - 1, Home: 0, End: networks.length - 1 };
+    if (!(e.key in moves)) return;
+    e.preventDefault();
+    const next = (moves[e.key] + networks.length) % networks.length;
+    setActive(next);
+    itemRefs.current[next]?.focus({ preventScroll: true });
+  };
+
+  const handleBlur = (e: React.FocusEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFocused(false);
+  };
+
+  // The second copy only exists for seamless looping: hidden from assistive tech and the tab order.
+  // Opening a network from a copy still names the original, which is where focus returns.
+  const renderItem = (net: NetworkInfo, i: number) => {
+    const copy = i >= networks.length;
+    const index = i % networks.length;
+    return (
+      <button
+        key={i}
+        ref={el => { itemRefs.current[i] = el; }}
+        onClick={() => onSelect?.(net.id, itemRefs.current[index]!)}
+        onFocus={() => { if (!copy) { setActive(index); showItem(i); } }}
+        tabIndex={!copy && index === active ? 0 : -1}
+        aria-hidden={copy || undefined}
+        aria-label={copy ? undefined : `${net.name}: show network details`}
+        className="flex flex-col items-center gap-4 group/item cursor-pointer rounded-lg outline-none"
+      >
+        <div className="w-64 h-48 relative bg-white rounded-lg border border-slate-200 p-2 transition-all duration-300 shadow-sm group-hover/item:scale-110 group-hover/item:border-urb-blue group-hover/item:shadow-md group-focus-visible/item:scale-110 group-focus-visible/item:border-urb-blue group-focus-visible/item:ring-2 group-focus-visible/item:ring-urb-blue z-10 overflow-hidden flex items-center justify-center">
+          {/* Filter: mix-blend-multiply makes white transparent, contrast sharpens lines */}
+          <Picture 
+            src={net.image!}
+            alt=""
+            className="w-full h-full object-contain mix-blend-multiply contrast-125 transition-all duration-300"
+          />
+        </div>
+        <span className="text-xs font-mono font-bold text-slate-400 uppercase tracking-widest group-hover/item:text-urb-blue group-focus-visible/item:text-urb-blue transition-colors">{net.name}</span>
+      </button>
+    );
+  };
+
+  // Reduced motion: every network at once, nothing moves
+  if (reduceMotion) {
+    return (
+      <div
+        role="group"
+        aria-label="Networks in the dataset. Use the arrow keys to move between them."
+        onKeyDown={handleKeyDown}
+        className="mt-12 bg-white py-8 px-4 rounded-xl shadow-inner border border-slate-100 grid grid-cols-[repeat(auto-fill,minmax(16rem,1fr))] gap-8 justify-items-center"
+      >
+        {networks.map(renderItem)}
+      </div>
+    );
+  }
 
   return (
-    <div className="w-full overflow-hidden relative group mt-12 bg-white py-8 rounded-xl shadow-inner border border-slate-100">
+    <div
+      ref={containerRef}
+      role="region"
+      aria-roledescription="carousel"
+      aria-label="Networks in the dataset. Use the arrow keys to move between them."
+      onPointerEnter={() => setHovered(true)}
+      onPointerLeave={() => setHovered(false)}
+      className="w-full overflow-hidden relative group mt-12 bg-white py-8 rounded-xl shadow-inner border border-slate-100"
+    >
         <motion.div 
             className="flex gap-16 w-max items-center px-4"
-            animate={{ x: ["0%", "-50%"] }}
-            transition={{ 
-                repeat: Infinity, 
-                ease: "linear", 
-                duration: 50 
-            }}
+            style={{ x }}
+            onKeyDown={handleKeyDown}
+            // Only focus on an item pauses; the play control must not hold the marquee still
+            onFocus={() => setFocused(true)}
+            onBlur={handleBlur}
         >
-            {/* Duplicated list for seamless looping */}
-            {[...networks, ...networks].map((net, i) => (
-                <div key={i} className="flex flex-col items-center gap-4 group/item cursor-pointer">
-                    <div className="w-64 h-48 relative bg-white rounded-lg border border-slate-200 p-2 transition-all duration-300 shadow-sm group-hover/item:scale-110 group-hover/item:border-urb-blue group-hover/item:shadow-md z-10 overflow-hidden flex items-center justify-center">
-                        {/* Filter: mix-blend-multiply makes white transparent, contrast sharpens lines */}
-                        <img 
-                            src={`https://github.com/COeXISTENCE-PROJECT/Ile-de-france/blob/main/${net.id}/${net.id}_network.png?raw=true`}
-                            alt={net.name}
-                            className="w-full h-full object-contain mix-blend-multiply contrast-125 transition-all duration-300"
-                        />
-                    </div>
-                    <span className="text-xs font-mono font-bold text-slate-400 uppercase tracking-widest group-hover/item:text-urb-blue transition-colors">{net.name}</span>
-                </div>
-            ))}
+            {[...networks, ...networks].map(renderItem)}
         </motion.div>
+        <button
+            onClick={() => setPlaying(p => !p)}
+            aria-label={playing ? 'Pause carousel' : 'Play carousel'}
+            title={playing ? 'Pause' : 'Play'}
+            className="absolute top-2 right-2 z-20 p-2 bg-white/90 border border-slate-200 rounded-full text-slate-500 hover:text-slate-900 hover:bg-white transition-colors shadow-sm"
+        >
+            {playing ? <Pause size={14} /> : <Play size={14} />}
+        </button>
     </div>
   )
 }
@@ -128,121 +232,274 @@ export const FrameworkDiagram: React.FC = () => {
 };
 
 // --- BENCHMARK RESULTS ---
-export const BenchmarkResultsDiagram: React.FC = () => {
-    const [scenario, setScenario] = useState<'st_arnoult' | 'provins' | 'ingolstadt'>('st_arnoult');
-
-    // Data from Table 1 of the paper (t_CAV values)
-    const data = {
-        st_arnoult: {
-            human: 3.15, // t_pre
-            aon: 3.01,
-            random: 3.58,
-            qmix: 3.21,
-            ippo: 3.33,
-            iql: 3.53,
-            mappo: 3.51,
-            title: "St. Arnoult (Small)",
-            cav_wins: "80%" // QMIX
-        },
-        provins: {
-            human: 2.80, // t_pre
-            aon: 2.76,
-            random: 3.04,
-            qmix: 3.14,
-            ippo: 2.98,
-            iql: 3.01,
-            mappo: 3.05,
-            title: "Provins (Medium)",
-            cav_wins: "0%"
-        },
-        ingolstadt: {
-            human: 4.21, // t_pre
-            aon: 4.37,
-            random: 4.81,
-            qmix: 4.87,
-            ippo: 4.71,
-            iql: 4.81,
-            mappo: 4.82,
-            title: "Ingolstadt (Large)",
-            cav_wins: "0%"
+const RESULTS_VIEWS = ['chart', 'heatmap', 'scaling', 'ranking', 'curves', 'changes', 'leaderboard'] as const;
+type ResultsView = typeof RESULTS_VIEWS[number];
+const ALL_FAMILIES = Object.keys(FAMILY_LABELS) as AlgorithmFamily[];
+
+interface BenchmarkResultsDiagramProps {
+    // Optional controlled metric, view and network, so other sections can link into the results
+    metric?: string;
+    onMetricChange?: (metric: string) => void;
+    view?: string;
+    onViewChange?: (view: string) => void;
+    network?: string;
+    onNetworkChange?: (network: string) => void;
+}
+
+export const BenchmarkResultsDiagram: React.FC<BenchmarkResultsDiagramProps> = ({ metric: metricProp, onMetricChange, view: viewProp, onViewChange, network: networkProp, onNetworkChange }) => {
+    // Restore the view from a shared link, ignoring ids we don't know
+    const [initial] = useState(readUrlState);
+    const [releaseId, setReleaseId] = useState(() => initial.release && getRelease(initial.release) ? initial.release : LATEST_RELEASE.id);
+    const release = getRelease(releaseId) ?? LATEST_RELEASE;
+    // A local run, if one was dropped in, is shown alongside the published results
+    const [run, setRun] = useState<LoadedRun | null>(null);
+    const results = useMemo(() => run ? mergeRun(release.results, run.results) : release.results, [run, release]);
+    const networkIds = getResultNetworks(results);
+    const [localScenario, setLocalScenario] = useState<string>(() => initial.network && getNetwork(initial.network) ? initial.network : networkIds[0]);
+    const [localView, setLocalView] = useState<ResultsView>(() => pickKnown([initial.view ?? ''], RESULTS_VIEWS)?.[0] ?? 'chart');
+    const [localMetric, setLocalMetric] = useState(() => initial.metric && getMetric(initial.metric) ? initial.metric : DEFAULT_METRIC);
+    const [mode, setMode] = useState<DistributionMode>('ci');
+    const [axisMode, setAxisMode] = useState<AxisMode>('absolute');
+    const [deltaBaseline, setDeltaBaseline] = useState(HUMAN_BASELINE);
+    const [selectedNetworks, setSelectedNetworks] = useState<string[]>(() => pickKnown(initial.networks, networkIds) ?? networkIds);
+    const [selectedFamilies, setSelectedFamilies] = useState<AlgorithmFamily[]>(() => pickKnown(initial.families, ALL_FAMILIES) ?? ALL_FAMILIES);
+    const [linkCopied, setLinkCopied] = useState(false);
+
+    const metric = getMetric(metricProp ?? localMetric) ?? getMetric(DEFAULT_METRIC)!;
+    // Offer the metrics this release reports, plus a linked one it does not, which shows as empty
+    const reported = reportedMetrics(results.entries);
+    const metricReported = reported.some(m => m.id === metric.id);
+    const metrics = metricReported ? reported : [...reported, metric];
+    const setMetric = (id: string) => {
+        setLocalMetric(id);
+        onMetricChange?.(id);
+    };
+    const scenario = networkProp && networkIds.includes(networkProp) ? networkProp : localScenario;
+    const setScenario = (id: string) => {
+        setLocalScenario(id);
+        onNetworkChange?.(id);
+    };
+    const view = pickKnown([viewProp ?? localView], RESULTS_VIEWS)?.[0] ?? 'chart';
+    const setView = (next: ResultsView) => {
+        setLocalView(next);
+        onViewChange?.(next);
+    };
+    const network = getNetwork(scenario);
+    const summary = results.networks[scenario] ?? {};
+    const networkEntries = getNetworkEntries(results, scenario);
+    const entries = networkEntries.filter(e => getMetricValue(e, metric.id) !== undefined);
+    const hasSeeds = entries.some(e => (e.metrics[metric.id].seeds?.length ?? 0) > 1);
+    // Box plots and seed strips need per-seed values; without them only the means are drawn
+    const distribution: DistributionMode = hasSeeds ? mode : 'ci';
+    // Baselines the delta view can compare against, human drivers through their reference measure
+    const baselineEntries = networkEntries.filter(e => resolveAlgorithm(results, e.algorithm)?.family === 'baseline' && getReferenceResult(e, metric.id));
+
+    // Mirror the view into the query string; defaults are left out to keep links short
+    useEffect(() => {
+        writeUrlState({
+            release: release === LATEST_RELEASE ? undefined : release.id,
+            view: view === 'chart' ? undefined : view,
+            network: scenario === networkIds[0] ? undefined : scenario,
+            metric: metric.id === DEFAULT_METRIC ? undefined : metric.id,
+            networks: selectedNetworks.length === networkIds.length ? undefined : selectedNetworks,
+            families: selectedFamilies.length === ALL_FAMILIES.length ? undefined : selectedFamilies,
+        });
+    }, [release, view, scenario, metric.id, selectedNetworks, selectedFamilies]);
+
+    // Keep the network and filters where the other release has them
+    const changeRelease = (id: string) => {
+        const next = getRelease(id) ?? LATEST_RELEASE;
+        const nextIds = getResultNetworks(run ? mergeRun(next.results, run.results) : next.results);
+        setReleaseId(next.id);
+        setSelectedNetworks(prev => pickKnown(prev, nextIds) ?? nextIds);
+        if (!nextIds.includes(scenario)) setScenario(nextIds[0]);
+    };
+
+    const loadRun = (loaded: LoadedRun) => {
+        const runNetworks = getResultNetworks(loaded.results);
+        setRun(loaded);
+        setSelectedNetworks(prev => [...new Set([...prev, ...runNetworks])]);
+        if (!runNetworks.includes(scenario)) setScenario(runNetworks[0]);
+    };
+
+    const clearRun = () => {
+        const published = getResultNetworks(release.results);
+        setRun(null);
+        setSelectedNetworks(prev => pickKnown(prev, published) ?? published);
+        if (!published.includes(scenario)) setScenario(published[0]);
+    };
+
+    const copyLink = async () => {
+        const url = new URL(window.location.href);
+        url.hash = 'results';
+        try {
+            await navigator.clipboard.writeText(url.toString().replace(/%2C/g, ','));
+        } catch {
+            return; // Denied or unavailable, e.g. outside a secure context: the address bar still has the link
         }
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
     };
 
-    const currentData = data[scenario];
-    const allValues = [
-        currentData.human, 
-        currentData.aon, 
-        currentData.random, 
-        currentData.qmix, 
-        currentData.ippo, 
-        currentData.iql, 
-        currentData.mappo
-    ];
-    const maxVal = Math.max(...allValues) * 1.05;
-
-    const Bar = ({ label, value, color, highlight = false }: { label: string, value: number, color: string, highlight?: boolean }) => {
-        // Calculate relative width based on max range
-        const percentage = ((value) / maxVal) * 100;
-        
-        return (
-            <div className="flex flex-col gap-1 w-full">
-                <div className="flex justify-between text-xs font-semibold text-slate-600">
-                    <span>{label}</span>
-                    <span className="font-mono">{value.toFixed(2)}m</span>
+    // What the export menu writes out: the chart's network, or the leaderboard filters
+    const exportEntries = view === 'chart'
+        ? networkEntries
+        : filterEntries(results, { networks: selectedNetworks, families: selectedFamilies });
+    const exportName = view === 'chart' ? `urb-${results.release}-${scenario}-${metric.id}` : `urb-${results.release}-results`;
+
+    const viewTabStyle = (active: boolean) =>
+        `px-4 py-1.5 rounded-md text-xs font-bold uppercase tracking-wider transition-colors ${active ? 'bg-white text-urb-blue shadow-sm' : 'text-slate-500 hover:text-slate-900'}`;
+
+    const modeStyle = (active: boolean) =>
+        `px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${active ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`;
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Metric">
+                    {metrics.map(m => (
+                        <button
+                            key={m.id}
+                            role="radio"
+                            aria-checked={metric.id === m.id}
+                            onClick={() => setMetric(m.id)}
+                            title={m.description}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${metric.id === m.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'}`}
+                        >
+                            {m.label} <span className="font-mono opacity-60">({m.unit})</span>
+                        </button>
+                    ))}
                 </div>
-                <div className="w-full h-8 bg-slate-100 rounded-md overflow-hidden relative border border-slate-200">
-                    <motion.div 
-                        className={`h-full ${color}`}
-                        initial={{ width: 0 }}
-                        animate={{ width: `${percentage}%` }}
-                        transition={{ type: "spring", stiffness: 50 }}
+                <div className="flex items-center gap-3 self-end md:self-auto">
+                    <button
+                        onClick={copyLink}
+                        title="Copy a link to this view"
+                        className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold uppercase tracking-wider text-slate-600 hover:bg-slate-100 transition-colors"
+                    >
+                        {linkCopied ? <Check size={14} /> : <LinkIcon size={14} />} {linkCopied ? 'Copied' : 'Link'}
+                    </button>
+                    <ExportMenu
+                        results={results}
+                        entries={exportEntries}
+                        baseName={exportName}
+                        chart={view === 'chart' && entries.length > 0 ? { entries, metric, title: network?.name ?? scenario, view: { mode: distribution, axisMode, baseline: deltaBaseline } } : undefined}
                     />
+                    <div className="inline-flex flex-wrap p-1 bg-slate-200/60 rounded-lg">
+                        <button onClick={() => setView('chart')} className={viewTabStyle(view === 'chart')}>Chart</button>
+                        <button onClick={() => setView('heatmap')} className={viewTabStyle(view === 'heatmap')}>Heatmap</button>
+                        <button onClick={() => setView('scaling')} className={viewTabStyle(view === 'scaling')}>Scaling</button>
+                        <button onClick={() => setView('ranking')} className={viewTabStyle(view === 'ranking')}>Overall</button>
+                        <button onClick={() => setView('curves')} className={viewTabStyle(view === 'curves')}>Training</button>
+                        <button onClick={() => setView('changes')} className={viewTabStyle(view === 'changes')}>Changes</button>
+                        <button onClick={() => setView('leaderboard')} className={viewTabStyle(view === 'leaderboard')}>Leaderboard</button>
+                    </div>
                 </div>
             </div>
-        );
-    };
 
-    return (
-        <div className="grid grid-cols-1 md:grid-cols-12 gap-8">
-            <div className="md:col-span-4 flex flex-col justify-center">
-                <h3 className="text-xl font-bold mb-4">{currentData.title}</h3>
-                <p className="text-sm text-slate-600 mb-4">
-                    Mean CAV travel times (t_CAV). Lower is better.
-                    {scenario === 'st_arnoult' 
-                        ? " In small networks, QMIX occasionally beats humans." 
-                        : " In larger networks, MARL algorithms struggle to match human efficiency."}
-                </p>
-
-                <div className="flex flex-col gap-2">
-                    <button onClick={() => setScenario('st_arnoult')} className={`px-4 py-2 rounded-lg text-left text-sm font-medium transition-colors ${scenario === 'st_arnoult' ? 'bg-urb-blue text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>St. Arnoult</button>
-                    <button onClick={() => setScenario('provins')} className={`px-4 py-2 rounded-lg text-left text-sm font-medium transition-colors ${scenario === 'provins' ? 'bg-urb-blue text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>Provins</button>
-                    <button onClick={() => setScenario('ingolstadt')} className={`px-4 py-2 rounded-lg text-left text-sm font-medium transition-colors ${scenario === 'ingolstadt' ? 'bg-urb-blue text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>Ingolstadt</button>
+            <ReleaseBar release={release} onChange={changeRelease} />
+
+            <RunUpload run={run} onLoad={loadRun} onClear={clearRun} />
+
+            {view === 'leaderboard' ? (
+                <Leaderboard
+                    results={results}
+                    selectedNetworks={selectedNetworks}
+                    selectedFamilies={selectedFamilies}
+                    onNetworksChange={setSelectedNetworks}
+                    onFamiliesChange={setSelectedFamilies}
+                />
+            ) : view === 'changes' ? (
+                <ReleaseDiff release={release} />
+            ) : view === 'curves' ? (
+                <div className="flex flex-col gap-4">
+                    <div className="md:w-80">
+                        <NetworkPicker value={scenario} onChange={setScenario} />
+                    </div>
+                    <LearningCurves results={results} network={scenario} />
                 </div>
-            </div>
+            ) : !metricReported ? (
+                <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col items-center justify-center gap-2 text-center min-h-[16rem]">
+                    <MapIcon size={24} className="text-slate-300" />
+                    <p className="text-sm font-medium text-slate-600">{metric.label} ({metric.symbol}) is not reported in this release.</p>
+                    <p className="text-xs text-slate-400">{metric.description}</p>
+                </div>
+            ) : view === 'scaling' ? (
+                <ResultsScatter results={results} metric={metric} onSelect={id => { setScenario(id); setView('chart'); }} />
+            ) : view === 'ranking' ? (
+                <ResultsRanking results={results} metric={metric} />
+            ) : view === 'heatmap' ? (
+                <ResultsHeatmap results={results} metric={metric} onSelect={id => { setScenario(id); setView('chart'); }} />
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-12 gap-8">
+                    <div className="md:col-span-4 flex flex-col justify-center">
+                        <h3 className="text-xl font-bold mb-4">
+                            {network?.name ?? scenario}{network?.sizeClass && ` (${SIZE_LABELS[network.sizeClass]})`}
+                        </h3>
+                        <p className="text-sm text-slate-600 mb-4">
+                            {metric.description} {metric.direction === 'lower' ? 'Lower' : 'Higher'} is better.
+                            {summary.note && ` ${summary.note}`}
+                        </p>
+
+                        <NetworkPicker value={scenario} onChange={setScenario} available={networkIds} />
+                        {network && (
+                            <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-mono text-slate-400 uppercase tracking-wider">
+                                <span>{network.region}</span>
+                                <span>{network.trips !== null ? `${network.trips.toLocaleString()} trips` : 'trips —'}</span>
+                                <span>{network.agents !== null ? `${network.agents.toLocaleString()} agents` : 'agents —'}</span>
+                            </div>
+                        )}
+                    </div>
             
-            <div className="md:col-span-8 bg-white p-6 rounded-xl border border-slate-100 flex flex-col gap-3">
-                 <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Baselines</h4>
-                 <div className="grid grid-cols-1 gap-2">
-                    <Bar label="Human Drivers" value={currentData.human} color="bg-slate-500" />
-                    <Bar label="All-or-Nothing" value={currentData.aon} color="bg-slate-300" />
-                    <Bar label="Random" value={currentData.random} color="bg-slate-300" />
-                 </div>
-                 
-                 <div className="w-full h-px bg-slate-100 my-2"></div>
-                 
-                 <h4 className="text-xs font-bold text-urb-blue uppercase tracking-wider mb-2">MARL Algorithms</h4>
-                 <div className="grid grid-cols-1 gap-2">
-                    <Bar label="QMIX" value={currentData.qmix} color="bg-urb-blue" />
-                    <Bar label="IPPO" value={currentData.ippo} color="bg-indigo-500" />
-                    <Bar label="IQL" value={currentData.iql} color="bg-sky-500" />
-                    <Bar label="MAPPO" value={currentData.mappo} color="bg-blue-400" />
-                 </div>
+                    {entries.length === 0 ? (
+                        <div className="md:col-span-8 bg-white p-6 rounded-xl border border-slate-100 flex flex-col items-center justify-center gap-2 text-center min-h-[16rem]">
+                             <MapIcon size={24} className="text-slate-300" />
+                             {getNetworkEntries(results, scenario).length === 0 ? (
+                                <>
+                                    <p className="text-sm font-medium text-slate-600">No published results for {network?.name ?? scenario} yet.</p>
+                                    <p className="text-xs text-slate-400">Results are available for {networkIds.map(id => getNetwork(id)?.name ?? id).join(', ')}.</p>
+                                </>
+                             ) : (
+                                <p className="text-sm font-medium text-slate-600">{metric.label} ({metric.symbol}) has not been reported for {network?.name ?? scenario}.</p>
+                             )}
+                        </div>
+                    ) : (
+                        <div className="md:col-span-8 bg-white p-6 rounded-xl border border-slate-100 flex flex-col gap-3">
+                             <div className="flex items-center justify-between gap-2 -mt-1 mb-1">
+                                <span className="text-[10px] text-slate-400">
+                                    {hasSeeds ? 'Whiskers: 95% CI over seeds' : 'Per-seed values not published for this view'}
+                                </span>
+                                {hasSeeds && (
+                                    <div className="inline-flex gap-1" role="radiogroup" aria-label="Distribution display">
+                                        <button role="radio" aria-checked={mode === 'ci'} onClick={() => setMode('ci')} className={modeStyle(mode === 'ci')}>Mean ± CI</button>
+                                        <button role="radio" aria-checked={mode === 'box'} onClick={() => setMode('box')} className={modeStyle(mode === 'box')}>Box + Seeds</button>
+                                    </div>
+                                )}
+                             </div>
+                             <div className="flex flex-wrap items-center justify-end gap-2 -mt-2 mb-1">
+                                <div className="inline-flex gap-1" role="radiogroup" aria-label="Axis">
+                                    {(Object.keys(AXIS_MODES) as AxisMode[]).map(m => (
+                                        <button key={m} role="radio" aria-checked={axisMode === m} onClick={() => setAxisMode(m)} className={modeStyle(axisMode === m)}>{AXIS_MODES[m]}</button>
+                                    ))}
+                                </div>
+                                {axisMode === 'delta' && baselineEntries.length > 0 && (
+                                    <select
+                                        value={deltaBaseline}
+                                        onChange={e => setDeltaBaseline(e.target.value)}
+                                        aria-label="Baseline"
+                                        className="bg-white border border-slate-200 rounded px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider text-slate-600"
+                                    >
+                                        {baselineEntries.map(e => <option key={e.algorithm} value={e.algorithm}>{resolveAlgorithm(results, e.algorithm)?.label ?? e.algorithm}</option>)}
+                                    </select>
+                                )}
+                             </div>
+
+                             <ResultsBarChart results={results} network={scenario} entries={entries} metric={metric} mode={distribution} axisMode={axisMode} baseline={deltaBaseline} />
                  
-                 <div className="mt-4 p-4 bg-slate-50 rounded-lg flex items-center gap-3 text-xs text-slate-500">
-                    <Activity size={16} />
-                    <span>In this scenario, RL agents achieved a win rate of <strong className="text-slate-900">{currentData.cav_wins}</strong> against URB baselines.</span>
-                 </div>
-            </div>
+                             <WinRatePanel results={results} entries={networkEntries} />
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
-};
+};
\ No newline at end of file
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileCode, FileImage, FileJson, FileSpreadsheet, FileText } from 'lucide-react';
+import { MetricInfo } from '../data/metrics';
+import { ResultEntry, ResultsFile } from '../data/results';
+import { BarChartView, downloadBlob, downloadText, svgToPng, toBarChartSvg, toCsv, toLatex, toResultsJson } from '../lib/exportResults';
+
+interface ExportMenuProps {
+    results: ResultsFile;
+    entries: ResultEntry[]; // Currently filtered results
+    baseName: string; // File name without extension
+    chart?: { entries: ResultEntry[], metric: MetricInfo, title: string, view: BarChartView }; // Omitted when no bar chart is shown
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ results, entries, baseName, chart }) => {
+    const [open, setOpen] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        const handleClick = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [open]);
+
+    const figure = () => toBarChartSvg(results, chart!.entries, chart!.metric, chart!.title, chart!.view);
+
+    const formats = [
+        { label: 'CSV', icon: FileSpreadsheet, run: () => downloadText(`${baseName}.csv`, toCsv(results, entries), 'text/csv') },
+        { label: 'JSON', icon: FileJson, run: () => downloadText(`${baseName}.json`, toResultsJson(results, entries), 'application/json') },
+        { label: 'LaTeX table', icon: FileText, run: () => downloadText(`${baseName}.tex`, toLatex(results, entries), 'application/x-tex') },
+        { label: 'SVG figure', icon: FileCode, chart: true, run: () => downloadText(`${baseName}.svg`, figure().svg, 'image/svg+xml') },
+        { label: 'PNG figure', icon: FileImage, chart: true, run: async () => downloadBlob(`${baseName}.png`, await svgToPng(figure())) },
+    ];
+
+    const run = async (action: () => void | Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+            setOpen(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                aria-haspopup="menu"
+                aria-expanded={open}
+                disabled={entries.length === 0}
+                className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold uppercase tracking-wider text-slate-600 hover:bg-slate-100 disabled:opacity-40 transition-colors"
+            >
+                <Download size={14} /> Export
+            </button>
+            {open && (
+                <div role="menu" className="absolute right-0 z-30 mt-1 w-48 bg-white border border-slate-200 rounded-lg shadow-lg py-1">
+                    {formats.map(f => {
+                        const disabled = f.chart && !chart;
+                        return (
+                            <button
+                                key={f.label}
+                                role="menuitem"
+                                disabled={disabled}
+                                title={disabled ? 'Figures are exported from the chart view' : undefined}
+                                onClick={() => run(f.run)}
+                                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-700 hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-transparent text-left"
+                            >
+                                <f.icon size={14} className="text-slate-400" /> {f.label}
+                            </button>
+                        );
+                    })}
+                    <p className="px-3 pt-2 pb-1 text-[10px] text-slate-400 border-t border-slate-100 mt-1">{entries.length} entries · generated in your browser</p>
+                    {error && <p className="px-3 pb-1 text-[10px] text-red-600">{error}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
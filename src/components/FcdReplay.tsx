@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { useAnimationFrame } from 'framer-motion';
+import { FileUp, Film, Pause, Play, RotateCcw } from 'lucide-react';
+import { NETWORKS, getNetwork } from '../data/networks';
+import { FRAME_STRIDE, FcdTrace, frameAt, parseFcdFile, traceEnd, traceStart } from '../lib/fcd';
+import { Bounds } from '../lib/sumoNetwork';
+import { NetworkPicker } from './NetworkPicker';
+import { useSumoNetwork } from './NetworkViewer';
+import { ReplayClock, SimulationScene, VEHICLE_COLORS } from './QuantumScene';
+
+// --- FCD REPLAY ---
+// Plays back a recorded episode on its network: the 3D scene reads the clock every
+// frame, while the controls below only mirror it, so the canvas never re-renders.
+
+const SPEEDS = [0.5, 1, 2, 5, 10];
+
+/** Simulation seconds as h:mm:ss. */
+const formatTime = (s: number) =>
+    `${Math.floor(s / 3600)}:${String(Math.floor((s % 3600) / 60)).padStart(2, '0')}:${String(Math.floor(s % 60)).padStart(2, '0')}`;
+
+const overlaps = (a: Bounds, b: Bounds) => a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+
+/** Vehicles of each kind on the road at `time`. */
+const activeCounts = (trace: FcdTrace, time: number) => {
+    const { data } = trace.frames[frameAt(trace, time)];
+    let cav = 0;
+    for (let i = 0; i < data.length; i += FRAME_STRIDE) if (trace.vehicles[data[i]].kind === 'cav') cav++;
+    return { cav, human: data.length / FRAME_STRIDE - cav };
+};
+
+const ReplayControls: React.FC<{ trace: FcdTrace, clock: ReplayClock }> = ({ trace, clock }) => {
+    const [time, setTime] = useState(clock.time);
+    const [playing, setPlaying] = useState(clock.playing);
+    const [speed, setSpeed] = useState(clock.speed);
+    const start = traceStart(trace);
+    const end = traceEnd(trace);
+
+    // Follow the clock the scene advances; setState ignores unchanged values
+    useAnimationFrame(() => {
+        setTime(clock.time);
+        setPlaying(clock.playing);
+    });
+
+    const togglePlaying = () => {
+        if (!clock.playing && clock.time >= end) clock.time = start;
+        clock.playing = !clock.playing;
+    };
+
+    const seek = (value: number) => {
+        clock.time = value;
+        setTime(value);
+    };
+
+    const counts = activeCounts(trace, time);
+    const buttonStyle = 'p-2 rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors';
+    const speedStyle = (active: boolean) =>
+        `px-2 py-1 rounded-md text-xs font-mono font-bold transition-colors ${active ? 'bg-white text-urb-blue shadow-sm' : 'text-slate-500 hover:text-slate-900'}`;
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex items-center gap-3">
+                <button onClick={togglePlaying} className={buttonStyle} aria-label={playing ? 'Pause replay' : 'Play replay'}>
+                    {playing ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <button onClick={() => seek(start)} className={buttonStyle} aria-label="Back to the start">
+                    <RotateCcw size={16} />
+                </button>
+                <input
+                    type="range"
+                    min={start}
+                    max={end}
+                    step="any"
+                    value={time}
+                    onChange={e => seek(Number(e.target.value))}
+                    aria-label="Replay time"
+                    aria-valuetext={formatTime(time)}
+                    className="flex-1 accent-urb-blue"
+                />
+                <span className="text-xs font-mono text-slate-600 whitespace-nowrap">{formatTime(time)} / {formatTime(end)}</span>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-500">
+                <div className="flex bg-slate-100 p-1 rounded-lg" role="radiogroup" aria-label="Playback speed">
+                    {SPEEDS.map(s => (
+                        <button key={s} role="radio" aria-checked={speed === s} onClick={() => { clock.speed = s; setSpeed(s); }} className={speedStyle(speed === s)}>
+                            {s}×
+                        </button>
+                    ))}
+                </div>
+                <span className="flex items-center gap-4">
+                    <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: VEHICLE_COLORS.cav }}></span>{counts.cav} CAVs</span>
+                    <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: VEHICLE_COLORS.human }}></span>{counts.human} human drivers</span>
+                </span>
+            </div>
+        </div>
+    );
+};
+
+const withNetworkFile = NETWORKS.filter(n => n.networkFile);
+
+export const FcdReplay: React.FC<{ initialNetwork?: string }> = ({ initialNetwork = 'saint_arnoult' }) => {
+    const [networkId, setNetworkId] = useState(initialNetwork);
+    const [trace, setTrace] = useState<FcdTrace | null>(null);
+    const [source, setSource] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const clock = useRef<ReplayClock>({ time: 0, playing: false, speed: 1 });
+    const inputRef = useRef<HTMLInputElement>(null);
+    const info = getNetwork(networkId);
+    // The roads are only drawn under a trace, so they load once one is open
+    const network = useSumoNetwork(info?.networkFile, info?.name ?? networkId, trace !== null);
+    const label = info?.name ?? networkId;
+
+    const showTrace = (next: FcdTrace, name: string) => {
+        Object.assign(clock.current, { time: traceStart(next), playing: true });
+        setTrace(next);
+        setSource(name);
+        setError(null);
+    };
+
+    const loadFile = async (file: File) => {
+        try {
+            showTrace(parseFcdFile(await file.text()), file.name);
+        } catch (err) {
+            setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const roads = network.status === 'ready' ? network.network : undefined;
+    const mismatch = trace && roads && !overlaps(trace.bounds, roads.bounds);
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col gap-4 text-left text-slate-900">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <NetworkPicker value={networkId} onChange={setNetworkId} available={withNetworkFile.map(n => n.id)} />
+                <div className="flex items-center gap-2">
+                    <input ref={inputRef} type="file" accept=".xml,.json,application/json" onChange={e => { const file = e.target.files?.[0]; if (file) loadFile(file); e.target.value = ''; }} className="hidden" />
+                    <button
+                        onClick={() => inputRef.current?.click()}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold uppercase tracking-wider text-slate-600 hover:bg-slate-100 transition-colors"
+                    >
+                        <FileUp size={14} /> Open FCD file
+                    </button>
+                </div>
+            </div>
+
+            {trace ? (
+                <>
+                    <div className="relative h-[28rem] bg-slate-900 rounded-lg overflow-hidden" role="img" aria-label={`Replay of ${source} on ${label}: ${trace.vehicles.length} vehicles. Scroll to zoom, drag to pan.`}>
+                        <SimulationScene key={source} network={roads} replay={trace} clock={clock.current} />
+                    </div>
+                    <ReplayControls trace={trace} clock={clock.current} />
+                    <div className="flex flex-wrap justify-between gap-x-6 gap-y-1 text-xs text-slate-500">
+                        <span className="font-mono">{source}</span>
+                        {network.status !== 'ready' && <span>Vehicles only: {network.status === 'loading' ? 'the roads of this network are still loading.' : network.message}</span>}
+                        {mismatch && <span role="alert" className="text-amber-700">The recorded positions lie outside {label}. Was the episode recorded on another network?</span>}
+                        {error && <span role="alert" className="text-red-600">{error}</span>}
+                    </div>
+                </>
+            ) : (
+                <div className="h-[28rem] flex flex-col items-center justify-center gap-3 text-center bg-slate-50 rounded-lg border border-slate-200 p-6">
+                    <Film size={24} className="text-slate-300" />
+                    <p className="text-sm font-medium text-slate-600">No recorded episode is loaded for {label}.</p>
+                    <p className="text-xs text-slate-400 max-w-md">
+                        No episodes are bundled with this site yet. Open the floating car data of an episode: SUMO's <code>--fcd-output</code> XML or a URB replay JSON (see <code>src/lib/fcd.ts</code>).
+                        It is parsed in your browser and drawn on the network picked above.
+                    </p>
+                    {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { AlgorithmFamily, FAMILY_LABELS } from '../data/algorithms';
+import { DEFAULT_METRIC, formatMetricValue, getMetric } from '../data/metrics';
+import { getNetwork } from '../data/networks';
+import { ResultsFile, SortKey, SortState, filterEntries, getMetricSummary, getMetricValue, getResultNetworks, reportedMetrics, resolveAlgorithm, sortEntries } from '../data/results';
+
+const chipStyle = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-medium border transition-colors ${active ? 'bg-urb-blue text-white border-urb-blue' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'}`;
+
+// Toggle an item in a list, never leaving the list empty
+const toggle = <T,>(list: T[], item: T): T[] => {
+    if (!list.includes(item)) return [...list, item];
+    return list.length > 1 ? list.filter(i => i !== item) : list;
+};
+
+interface LeaderboardProps {
+    results: ResultsFile;
+    // Filters are owned by the parent so exports and links see the same selection
+    selectedNetworks: string[];
+    selectedFamilies: AlgorithmFamily[];
+    onNetworksChange: (networks: string[]) => void;
+    onFamiliesChange: (families: AlgorithmFamily[]) => void;
+}
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ results, selectedNetworks, selectedFamilies, onNetworksChange, onFamiliesChange }) => {
+    const networkIds = useMemo(() => getResultNetworks(results), [results]);
+    const metrics = useMemo(() => reportedMetrics(results.entries), [results]);
+    const families = Object.keys(FAMILY_LABELS) as AlgorithmFamily[];
+
+    const [sort, setSort] = useState<SortState>({ key: `metric:${DEFAULT_METRIC}`, ascending: getMetric(DEFAULT_METRIC)!.direction === 'lower' });
+
+    const rows = useMemo(
+        () => sortEntries(filterEntries(results, { networks: selectedNetworks, families: selectedFamilies }), sort),
+        [results, selectedNetworks, selectedFamilies, sort]
+    );
+
+    const sortBy = (key: SortKey, defaultAscending = true) => {
+        setSort(prev => prev.key === key ? { key, ascending: !prev.ascending } : { key, ascending: defaultAscending });
+    };
+
+    const SortHeader = ({ sortKey, label, defaultAscending, align = 'left' }: { sortKey: SortKey, label: string, defaultAscending?: boolean, align?: 'left' | 'right' }) => {
+        const active = sort.key === sortKey;
+        const Icon = !active ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+        return (
+            <th className={`px-3 py-2 font-semibold text-${align}`} aria-sort={active ? (sort.ascending ? 'ascending' : 'descending') : 'none'}>
+                <button onClick={() => sortBy(sortKey, defaultAscending)} className={`inline-flex items-center gap-1 hover:text-urb-blue transition-colors ${active ? 'text-urb-blue' : ''}`}>
+                    {label}
+                    <Icon size={12} />
+                </button>
+            </th>
+        );
+    };
+
+    return (
+        <div className="flex flex-col gap-6">
+            <div className="flex flex-col gap-3">
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider mr-2">Networks</span>
+                    {networkIds.map(id => (
+                        <button key={id} onClick={() => onNetworksChange(toggle(selectedNetworks, id))} className={chipStyle(selectedNetworks.includes(id))}>
+                            {getNetwork(id)?.name ?? id}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider mr-2">Family</span>
+                    {families.map(family => (
+                        <button key={family} onClick={() => onFamiliesChange(toggle(selectedFamilies, family))} className={chipStyle(selectedFamilies.includes(family))}>
+                            {FAMILY_LABELS[family]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="overflow-x-auto bg-white rounded-xl border border-slate-100">
+                <table className="w-full text-sm">
+                    <thead className="text-xs text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                        <tr>
+                            <th className="px-3 py-2 font-semibold text-left">#</th>
+                            <SortHeader sortKey="network" label="Network" />
+                            <SortHeader sortKey="algorithm" label="Algorithm" />
+                            {metrics.map(m => (
+                                <SortHeader key={m.id} sortKey={`metric:${m.id}`} label={`${m.symbol} (${m.unit})`} defaultAscending={m.direction === 'lower'} align="right" />
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((entry, i) => {
+                            const algorithm = resolveAlgorithm(results, entry.algorithm);
+                            return (
+                                <tr key={`${entry.network}-${entry.algorithm}`} className="border-b border-slate-50 last:border-0 hover:bg-slate-50">
+                                    <td className="px-3 py-2 font-mono text-slate-400">{i + 1}</td>
+                                    <td className="px-3 py-2 text-slate-600">{getNetwork(entry.network)?.name ?? entry.network}</td>
+                                    <td className="px-3 py-2">
+                                        <div className="flex items-center gap-2">
+                                            <span className={`w-2.5 h-2.5 rounded-full ${algorithm?.color ?? 'bg-slate-300'}`}></span>
+                                            <span className="font-semibold text-slate-900" title={entry.note}>{algorithm?.label ?? entry.algorithm}</span>
+                                            {algorithm && <span className="text-[10px] font-mono text-slate-400 uppercase">{FAMILY_LABELS[algorithm.family]}</span>}
+                                        </div>
+                                    </td>
+                                    {metrics.map(m => {
+                                        const value = getMetricValue(entry, m.id);
+                                        const summary = getMetricSummary(entry, m.id);
+                                        return (
+                                            <td
+                                                key={m.id}
+                                                className="px-3 py-2 text-right font-mono text-slate-700"
+                                                title={summary?.ci95 ? `n = ${summary.n}, std ${summary.std.toFixed(m.decimals + 1)}, 95% CI [${formatMetricValue(summary.ci95[0], m)}, ${formatMetricValue(summary.ci95[1], m)}]` : undefined}
+                                            >
+                                                {value === undefined ? <span className="text-slate-300">—</span> : formatMetricValue(value, m)}
+                                                {summary?.ci95 && <span className="text-slate-400"> ±{(summary.ci95[1] - summary.mean).toFixed(m.decimals)}</span>}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-slate-400">Release <span className="font-mono">{results.release}</span> · {results.source}</p>
+        </div>
+    );
+};
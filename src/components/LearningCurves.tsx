@@ -0,0 +1,296 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { FileUp, LineChart } from 'lucide-react';
+import { getNetwork } from '../data/networks';
+import { HUMAN_BASELINE, ResultsFile, getMetricValue, resolveAlgorithm } from '../data/results';
+import { CurveFile, CurvePoint, curveBand, fetchCurveIndex, fetchCurves, firstEpisodeBelow, validateCurveFile } from '../lib/curves';
+import { niceTicks, stepDecimals } from '../lib/ticks';
+import { ChartFigure, DataColumn, DataTable } from './DataTable';
+
+interface Curve {
+    key: string;
+    label: string;
+    hex: string;
+    file: CurveFile;
+}
+
+// Local files are told apart from published curves and from each other
+const LOCAL_COLORS = ['#10b981', '#f59e0b', '#ec4899', '#14b8a6'];
+
+const WIDTH = 720;
+const HEIGHT = 320;
+const MARGIN = { left: 48, right: 16, top: 16, bottom: 36 };
+
+const linePath = (points: CurvePoint[], x: (v: number) => number, y: (v: number) => number, pick: (p: CurvePoint) => number) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.episode).toFixed(1)} ${y(pick(p)).toFixed(1)}`).join('');
+
+const bandPath = (points: CurvePoint[], x: (v: number) => number, y: (v: number) => number) =>
+    linePath(points, x, y, p => p.hi) + [...points].reverse().map(p => `L${x(p.episode).toFixed(1)} ${y(p.lo).toFixed(1)}`).join('') + 'Z';
+
+interface LearningCurvesProps {
+    results: ResultsFile;
+    network: string;
+}
+
+export const LearningCurves: React.FC<LearningCurvesProps> = ({ results, network }) => {
+    const [index, setIndex] = useState<Record<string, string[]>>({});
+    const [published, setPublished] = useState<CurveFile[]>([]);
+    const [local, setLocal] = useState<CurveFile[]>([]);
+    const [hidden, setHidden] = useState<Set<string>>(new Set());
+    const [weight, setWeight] = useState(0.6);
+    const [showHumans, setShowHumans] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [hoverEpisode, setHoverEpisode] = useState<number | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        fetchCurveIndex().then(setIndex).catch(() => setIndex({}));
+    }, []);
+
+    useEffect(() => {
+        const algorithms = index[network] ?? [];
+        let cancelled = false;
+        setPublished([]);
+        Promise.all(algorithms.map(a => fetchCurves(network, a)))
+            .then(files => { if (!cancelled) setPublished(files); })
+            .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+        return () => { cancelled = true; };
+    }, [index, network]);
+
+    const loadFiles = async (files: FileList) => {
+        setError(null);
+        const loaded: CurveFile[] = [];
+        for (const file of Array.from(files)) {
+            try {
+                const result = validateCurveFile(JSON.parse(await file.text()));
+                if (!result.valid) throw new Error(`${result.errors[0].path}: ${result.errors[0].message}`);
+                loaded.push(result.curves!);
+            } catch (err) {
+                setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        }
+        setLocal(prev => [...prev.filter(c => !loaded.some(l => l.network === c.network && l.algorithm === c.algorithm)), ...loaded]);
+    };
+
+    const toCurve = (file: CurveFile, localIndex?: number): Curve => {
+        const algorithm = resolveAlgorithm(results, file.algorithm);
+        const yours = localIndex !== undefined;
+        return {
+            key: `${yours ? 'local' : 'published'}:${file.algorithm}`,
+            label: `${algorithm?.label ?? file.algorithm}${yours ? ' (yours)' : ''}`,
+            hex: yours ? LOCAL_COLORS[localIndex % LOCAL_COLORS.length] : algorithm?.hex ?? LOCAL_COLORS[0],
+            file,
+        };
+    };
+    const curves = [
+        ...published.map(f => toCurve(f)),
+        ...local.filter(f => f.network === network).map((f, i) => toCurve(f, i)),
+    ];
+    const elsewhere = local.filter(f => f.network !== network).length;
+    const visible = curves.filter(c => !hidden.has(c.key));
+
+    // Human travel time before any CAV was introduced
+    const humanEntry = results.entries.find(e => e.network === network && e.algorithm === HUMAN_BASELINE);
+    const baseline = humanEntry && (getMetricValue(humanEntry, 't_pre') ?? getMetricValue(humanEntry, 't_cav'));
+
+    const series = visible.map(c => {
+        const stride = c.file.episodeStride ?? 1;
+        const cav = curveBand(c.file.seeds.map(s => s.cav), weight, stride);
+        const humanSeeds = c.file.seeds.filter(s => s.human).map(s => s.human!);
+        return {
+            curve: c,
+            cav,
+            human: humanSeeds.length > 0 ? curveBand(humanSeeds, weight, stride) : [],
+            beats: baseline !== undefined ? firstEpisodeBelow(cav, baseline) : undefined,
+        };
+    });
+
+    const toggle = (key: string) => {
+        const next = new Set(hidden);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        setHidden(next);
+    };
+
+    const networkName = getNetwork(network)?.name ?? network;
+    const loadButton = (
+        <>
+            <input ref={inputRef} type="file" accept=".json,application/json" multiple onChange={e => { if (e.target.files) loadFiles(e.target.files); e.target.value = ''; }} className="hidden" />
+            <button
+                onClick={() => inputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold uppercase tracking-wider text-slate-600 hover:bg-slate-100 transition-colors"
+            >
+                <FileUp size={14} /> Load curves
+            </button>
+        </>
+    );
+
+    if (curves.length === 0) {
+        return (
+            <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col items-center justify-center gap-3 text-center min-h-[16rem]">
+                <LineChart size={24} className="text-slate-300" />
+                <p className="text-sm font-medium text-slate-600">No learning curves have been published for {networkName} yet.</p>
+                <p className="text-xs text-slate-400 max-w-md">
+                    Load a curves file exported from your training run to plot it here; it stays in your browser.
+                    Expected: {'{ "schemaVersion": 1, "network", "algorithm", "unit": "min", "seeds": [{ "cav": [...], "human": [...] }] }'}.
+                </p>
+                {elsewhere > 0 && <p className="text-xs text-slate-400">{elsewhere} loaded {elsewhere === 1 ? 'file is' : 'files are'} for other networks.</p>}
+                {loadButton}
+                {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+            </div>
+        );
+    }
+
+    const maxEpisode = Math.max(1, ...series.flatMap(s => [s.cav, s.human].map(p => p[p.length - 1]?.episode ?? 0)));
+    const yValues = series.flatMap(s => [...s.cav, ...(showHumans ? s.human : [])].flatMap(p => [p.lo, p.hi])).concat(baseline ?? []);
+    if (yValues.length === 0) yValues.push(0, 1); // Everything toggled off
+    const yPad = ((Math.max(...yValues) - Math.min(...yValues)) || 1) * 0.05;
+    const yMin = Math.min(...yValues) - yPad;
+    const yMax = Math.max(...yValues) + yPad;
+    const x = (episode: number) => MARGIN.left + (episode / maxEpisode) * (WIDTH - MARGIN.left - MARGIN.right);
+    const y = (v: number) => MARGIN.top + (1 - (v - yMin) / (yMax - yMin)) * (HEIGHT - MARGIN.top - MARGIN.bottom);
+    const { step: yStep, ticks: yTicks } = niceTicks(yMin, yMax);
+    const { ticks: xTicks } = niceTicks(0, maxEpisode);
+
+    const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const px = ((e.clientX - rect.left) / rect.width) * WIDTH;
+        const episode = Math.round(((px - MARGIN.left) / (WIDTH - MARGIN.left - MARGIN.right)) * maxEpisode);
+        setHoverEpisode(episode >= 1 && episode <= maxEpisode ? episode : null);
+    };
+    const nearest = (points: CurvePoint[]) =>
+        hoverEpisode === null ? undefined : points.reduce<CurvePoint | undefined>((best, p) => !best || Math.abs(p.episode - hoverEpisode) < Math.abs(best.episode - hoverEpisode) ? p : best, undefined);
+
+    type Series = typeof series[number];
+    const last = (points: CurvePoint[]) => points[points.length - 1];
+    const columns: DataColumn<Series>[] = [
+        { id: 'algorithm', header: 'Algorithm', value: s => s.curve.label },
+        { id: 'seeds', header: 'Seeds', value: s => s.curve.file.seeds.length, numeric: true },
+        { id: 'episodes', header: 'Episodes', value: s => last(s.cav)?.episode, numeric: true },
+        { id: 'cav', header: 'Final CAV', unit: 'min', value: s => last(s.cav)?.mean, format: s => last(s.cav)?.mean.toFixed(2) ?? '—', numeric: true },
+        { id: 'human', header: 'Final human', unit: 'min', value: s => last(s.human)?.mean, format: s => last(s.human)?.mean.toFixed(2) ?? '—', numeric: true },
+        { id: 'beats', header: 'Beats humans from episode', value: s => s.beats, numeric: true },
+    ];
+    const winners = series.filter(s => s.beats !== undefined);
+    const summary = baseline === undefined
+        ? `Learning curves of ${series.length} ${series.length === 1 ? 'algorithm' : 'algorithms'} on ${networkName}; no human baseline is published for this network.`
+        : `On ${networkName}, ${winners.length} of ${series.length} shown ${series.length === 1 ? 'algorithm gets' : 'algorithms get'} below the pre-CAV human travel time of ${baseline.toFixed(2)} min` +
+            (winners.length > 0 ? `: ${winners.map(s => `${s.curve.label} from episode ${s.beats}`).join(', ')}.` : '.');
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col gap-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap gap-2" aria-label="Algorithms shown">
+                    {curves.map(c => (
+                        <button
+                            key={c.key}
+                            onClick={() => toggle(c.key)}
+                            aria-pressed={!hidden.has(c.key)}
+                            className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${hidden.has(c.key) ? 'bg-white text-slate-400 border-slate-200' : 'bg-slate-900 text-white border-slate-900'}`}
+                        >
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: c.hex }}></span>
+                            {c.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                    <label className="flex items-center gap-2">
+                        Smoothing
+                        <input type="range" min={0} max={0.95} step={0.05} value={weight} onChange={e => setWeight(Number(e.target.value))} className="w-24 accent-urb-blue" />
+                        <span className="font-mono w-8">{weight.toFixed(2)}</span>
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                        <input type="checkbox" checked={showHumans} onChange={e => setShowHumans(e.target.checked)} className="accent-urb-blue" />
+                        Humans
+                    </label>
+                    {loadButton}
+                </div>
+            </div>
+
+            <ChartFigure
+                summary={summary}
+                table={<DataTable caption={`Learning curves on ${networkName} at smoothing ${weight.toFixed(2)}; final values are the last smoothed episode, averaged over seeds.`} columns={columns} rows={series} rowKey={s => s.curve.key} />}
+            >
+                <svg
+                    viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                    className="w-full h-auto"
+                    role="img"
+                    aria-label={`Mean travel time per training episode on ${networkName}`}
+                    onMouseMove={handleMove}
+                    onMouseLeave={() => setHoverEpisode(null)}
+                >
+                    {yTicks.map(t => (
+                        <g key={t}>
+                            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(t)} y2={y(t)} stroke="#f1f5f9" />
+                            <text x={MARGIN.left - 6} y={y(t) + 3} textAnchor="end" fontSize="10" fill="#94a3b8" fontFamily="JetBrains Mono, monospace">{t.toFixed(stepDecimals(yStep))}</text>
+                        </g>
+                    ))}
+                    {xTicks.map(t => (
+                        <text key={t} x={x(t)} y={HEIGHT - MARGIN.bottom + 14} textAnchor="middle" fontSize="10" fill="#94a3b8" fontFamily="JetBrains Mono, monospace">{t}</text>
+                    ))}
+                    <text x={(MARGIN.left + WIDTH - MARGIN.right) / 2} y={HEIGHT - 4} textAnchor="middle" fontSize="10" fill="#64748b">Episode</text>
+                    <text x={12} y={MARGIN.top + (HEIGHT - MARGIN.top - MARGIN.bottom) / 2} textAnchor="middle" fontSize="10" fill="#64748b" transform={`rotate(-90 12 ${MARGIN.top + (HEIGHT - MARGIN.top - MARGIN.bottom) / 2})`}>Travel time (min)</text>
+
+                    {baseline !== undefined && (
+                        <g>
+                            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(baseline)} y2={y(baseline)} stroke="#64748b" strokeDasharray="6 4" />
+                            <text x={WIDTH - MARGIN.right} y={y(baseline) - 4} textAnchor="end" fontSize="10" fill="#64748b">Human drivers before CAVs ({baseline.toFixed(2)} min)</text>
+                        </g>
+                    )}
+
+                    {series.map(s => (
+                        <g key={s.curve.key}>
+                            {s.cav.length > 0 && <path d={bandPath(s.cav, x, y)} fill={s.curve.hex} opacity={0.15} />}
+                            <path d={linePath(s.cav, x, y, p => p.mean)} fill="none" stroke={s.curve.hex} strokeWidth={2} />
+                            {showHumans && s.human.length > 0 && (
+                                <path d={linePath(s.human, x, y, p => p.mean)} fill="none" stroke={s.curve.hex} strokeWidth={1.5} strokeDasharray="2 3" opacity={0.8} />
+                            )}
+                            {s.beats !== undefined && (
+                                <g>
+                                    <line x1={x(s.beats)} x2={x(s.beats)} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} stroke={s.curve.hex} strokeDasharray="1 3" />
+                                    <circle cx={x(s.beats)} cy={y(baseline!)} r={4} fill="white" stroke={s.curve.hex} strokeWidth={2} />
+                                </g>
+                            )}
+                        </g>
+                    ))}
+
+                    {hoverEpisode !== null && (
+                        <line x1={x(hoverEpisode)} x2={x(hoverEpisode)} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} stroke="#0f172a" strokeOpacity={0.2} />
+                    )}
+                </svg>
+            </ChartFigure>
+
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-500 min-h-[1.25rem]">
+                {hoverEpisode !== null ? (
+                    <>
+                        <span className="font-mono text-slate-900">Episode {hoverEpisode}</span>
+                        {series.map(s => {
+                            const cav = nearest(s.cav);
+                            const human = nearest(s.human);
+                            return cav && (
+                                <span key={s.curve.key} className="font-mono">
+                                    <span style={{ color: s.curve.hex }}>●</span> {s.curve.label}: CAV {cav.mean.toFixed(2)}{human && ` · human ${human.mean.toFixed(2)}`} min
+                                </span>
+                            );
+                        })}
+                    </>
+                ) : series.map(s => (
+                    <span key={s.curve.key}>
+                        <span style={{ color: s.curve.hex }}>●</span> {s.curve.label}: {s.curve.file.seeds.length} {s.curve.file.seeds.length === 1 ? 'seed' : 'seeds'},{' '}
+                        {baseline === undefined ? 'no human baseline' : s.beats !== undefined ? <>beats humans from episode <strong className="text-slate-900">{s.beats}</strong></> : 'never beats humans'}
+                    </span>
+                ))}
+            </div>
+
+            <p className="text-[10px] text-slate-400">
+                Solid: CAV mean travel time, shaded ±1 std across seeds. Dotted: human drivers sharing the network during training. Markers show the first episode where the smoothed CAV curve drops below the pre-CAV human travel time.
+                {elsewhere > 0 && ` ${elsewhere} loaded ${elsewhere === 1 ? 'file is' : 'files are'} for other networks.`}
+            </p>
+            {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { DEFAULT_METRIC, formatMetricValue, getMetric, isBetter } from '../data/metrics';
+import { NETWORKS, SIZE_LABELS } from '../data/networks';
+import { LATEST_RELEASE } from '../data/releases';
+import { algorithmOrder, getMetricValue, getNetworkEntries, resolveAlgorithm } from '../data/results';
+import { assetUrl } from '../lib/assets';
+import { NetworkStats, SumoNetwork, fetchSumoNetwork, networkStats } from '../lib/sumoNetwork';
+import { NetworkMap } from './NetworkMap';
+import { Picture } from './Picture';
+
+// --- NETWORK COMPARISON ---
+// Two to four networks side by side. In every row the largest and smallest value are
+// marked, and each value is also given relative to the first network picked.
+
+const MIN_NETWORKS = 2;
+const MAX_NETWORKS = 4;
+
+type Loaded<T> = { status: 'loading' } | { status: 'error', message: string } | { status: 'ready', value: T };
+
+/** Loads one file per id with a cached fetcher; ids without a file are reported as missing. */
+const useLoadedFiles = <T,>(items: { id: string, url: string | null }[], load: (url: string) => Promise<T>, missing: string) => {
+    const [loaded, setLoaded] = useState<Record<string, Loaded<T>>>({});
+    // Read by the effect to skip finished files without re-running when they finish
+    const loadedRef = useRef(loaded);
+    loadedRef.current = loaded;
+    // The items, by value; `load` and `missing` are fixed per call site
+    const key = items.map(i => `${i.id}=${i.url}`).join('|');
+
+    useEffect(() => {
+        let cancelled = false;
+        items.forEach(({ id, url }) => {
+            if (!url) {
+                setLoaded(prev => ({ ...prev, [id]: { status: 'error', message: missing } }));
+                return;
+            }
+            if (loadedRef.current[id]?.status === 'ready') return;
+            setLoaded(prev => ({ ...prev, [id]: { status: 'loading' } }));
+            load(url)
+                .then(value => { if (!cancelled) setLoaded(prev => ({ ...prev, [id]: { status: 'ready', value } })); })
+                .catch(err => { if (!cancelled) setLoaded(prev => ({ ...prev, [id]: { status: 'error', message: err instanceof Error ? err.message : String(err) } })); });
+        });
+        return () => { cancelled = true; };
+    }, [key]);
+
+    return loaded;
+};
+
+interface Row {
+    label: string;
+    values: (number | undefined)[];
+    format: (v: number) => string;
+    fromFile?: boolean; // Computed from the network files, so shown while they load
+}
+
+const formatCount = (v: number) => v.toLocaleString();
+
+/** Relative difference to the reference column, e.g. "+35%". */
+const relative = (value: number, reference: number | undefined) => {
+    if (reference === undefined || reference === 0 || value === reference) return null;
+    const pct = ((value - reference) / Math.abs(reference)) * 100;
+    return `${pct > 0 ? '+' : ''}${Math.abs(pct) >= 10 ? pct.toFixed(0) : pct.toFixed(1)}%`;
+};
+
+export const NetworkCompare: React.FC = () => {
+    const [selected, setSelected] = useState<string[]>(() => NETWORKS.filter(n => n.networkFile).slice(0, MIN_NETWORKS).map(n => n.id));
+    const networks = selected.map(id => NETWORKS.find(n => n.id === id)!);
+
+    const maps = useLoadedFiles<SumoNetwork>(networks.map(n => ({ id: n.id, url: n.networkFile })), url => fetchSumoNetwork(assetUrl(url)), 'No network file is published.');
+
+    const toggle = (id: string) => setSelected(prev =>
+        prev.includes(id)
+            ? prev.length > MIN_NETWORKS ? prev.filter(s => s !== id) : prev
+            : prev.length < MAX_NETWORKS ? [...prev, id] : prev);
+
+    const stats = networks.map((n): NetworkStats | undefined => {
+        const map = maps[n.id];
+        return map?.status === 'ready' ? networkStats(map.value) : undefined;
+    });
+    const orNull = (v: number | null) => v ?? undefined;
+    const mapsLoading = networks.some(n => n.networkFile && maps[n.id]?.status !== 'ready' && maps[n.id]?.status !== 'error');
+    // Rows without a value for any of the networks are left out
+    const rows: Row[] = [
+        { label: 'Nodes', values: stats.map(s => s?.nodes), format: formatCount, fromFile: true },
+        { label: 'Edges', values: stats.map((s, i) => s?.edges ?? orNull(networks[i].edges)), format: formatCount, fromFile: true },
+        { label: 'Lane-km', values: stats.map(s => s?.laneKm), format: v => v.toFixed(1), fromFile: true },
+        { label: 'Traffic lights', values: stats.map(s => s?.trafficLights), format: formatCount, fromFile: true },
+        { label: 'Trips', values: networks.map(n => orNull(n.trips)), format: formatCount },
+        { label: 'Agents', values: networks.map(n => orNull(n.agents)), format: formatCount },
+        { label: 'Origins', values: networks.map(n => orNull(n.origins)), format: formatCount },
+        { label: 'Destinations', values: networks.map(n => orNull(n.destinations)), format: formatCount },
+    ].filter((r: Row) => r.values.some(v => v !== undefined) || (r.fromFile && mapsLoading));
+
+    const metric = getMetric(DEFAULT_METRIC)!;
+    const results = LATEST_RELEASE.results;
+    const algorithms = [...new Set(networks.flatMap(n => getNetworkEntries(results, n.id).map(e => e.algorithm)))]
+        .sort((a, b) => algorithmOrder(a) - algorithmOrder(b));
+    const resultValue = (network: string, algorithm: string) => {
+        const entry = results.entries.find(e => e.network === network && e.algorithm === algorithm);
+        return entry && getMetricValue(entry, metric.id);
+    };
+    const bestPerNetwork = networks.map(n => algorithms.reduce<number | undefined>((best, a) => {
+        const v = resultValue(n.id, a);
+        return v !== undefined && (best === undefined || isBetter(v, best, metric)) ? v : best;
+    }, undefined));
+
+    const chipStyle = (active: boolean) =>
+        `px-3 py-1 rounded-full text-xs font-medium border transition-colors disabled:opacity-40 disabled:pointer-events-none ${active ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-400'}`;
+    const gridCols = (count: number) => ['', '', 'md:grid-cols-2', 'md:grid-cols-3', 'md:grid-cols-4'][count];
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col gap-6">
+            <div className="flex flex-col gap-2">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Compare {MIN_NETWORKS}–{MAX_NETWORKS} networks</span>
+                <div className="flex flex-wrap gap-2" role="group" aria-label="Networks to compare">
+                    {NETWORKS.map(n => {
+                        const active = selected.includes(n.id);
+                        return (
+                            <button
+                                key={n.id}
+                                onClick={() => toggle(n.id)}
+                                aria-pressed={active}
+                                disabled={active ? selected.length <= MIN_NETWORKS : selected.length >= MAX_NETWORKS}
+                                className={chipStyle(active)}
+                            >
+                                {n.name}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className={`grid grid-cols-1 ${gridCols(networks.length)} gap-4`}>
+                {networks.map(n => {
+                    const map = maps[n.id];
+                    return (
+                        <div key={n.id} className="flex flex-col gap-2">
+                            <div>
+                                <div className="font-bold text-slate-900">{n.name}</div>
+                                <div className="text-[10px] text-slate-400">{n.region}{n.sizeClass && ` · ${SIZE_LABELS[n.sizeClass]}`}</div>
+                            </div>
+                            {map?.status === 'ready' ? (
+                                <NetworkMap network={map.value} label={n.name} className="h-56" />
+                            ) : (
+                                <div className="h-56 flex flex-col items-center justify-center gap-2 bg-slate-50 rounded-lg border border-slate-200 text-center p-3">
+                                    {n.image && <Picture src={n.image} alt={`Map of ${n.name}`} className="max-h-36 object-contain mix-blend-multiply" />}
+                                    {map?.status === 'error'
+                                        ? <span className="text-[10px] text-slate-400">{map.message}</span>
+                                        : <Loader2 size={16} className="text-slate-300 animate-spin" />}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <caption className="text-left text-xs text-slate-500 pb-2">
+                        Network statistics. <span className="text-urb-blue font-semibold">Blue</span> marks the largest and <span className="text-amber-600 font-semibold">amber</span> the smallest value in a row; percentages are relative to {networks[0].name}.
+                    </caption>
+                    <thead>
+                        <tr className="text-[10px] text-slate-400 uppercase tracking-wider text-left">
+                            <th className="font-semibold py-2 pr-4"><span className="sr-only">Statistic</span></th>
+                            {networks.map(n => <th key={n.id} scope="col" className="font-semibold py-2 pr-4 text-right">{n.name}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => {
+                            const known = row.values.filter((v): v is number => v !== undefined);
+                            const differs = known.length >= 2 && Math.max(...known) !== Math.min(...known);
+                            return (
+                                <tr key={row.label} className="border-t border-slate-100">
+                                    <th scope="row" className="py-2 pr-4 text-left font-semibold text-slate-900 whitespace-nowrap">{row.label}</th>
+                                    {row.values.map((v, i) => {
+                                        const mark = !differs || v === undefined ? '' : v === Math.max(...known) ? 'bg-blue-50 text-urb-blue' : v === Math.min(...known) ? 'bg-amber-50 text-amber-700' : '';
+                                        const delta = i > 0 && v !== undefined ? relative(v, row.values[0]) : null;
+                                        return (
+                                            <td key={networks[i].id} className={`py-2 px-2 text-right font-mono text-xs whitespace-nowrap rounded ${mark || 'text-slate-700'}`}>
+                                                {v === undefined ? <span className="text-slate-300">—</span> : row.format(v)}
+                                                {delta && <span className="ml-1 text-[10px] opacity-70">({delta})</span>}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <caption className="text-left text-xs text-slate-500 pb-2">{metric.label} ({metric.unit}), {LATEST_RELEASE.label}. Bold is the best algorithm on each network.</caption>
+                    <thead>
+                        <tr className="text-[10px] text-slate-400 uppercase tracking-wider text-left">
+                            <th className="font-semibold py-2 pr-4">Algorithm</th>
+                            {networks.map(n => <th key={n.id} scope="col" className="font-semibold py-2 pr-4 text-right">{n.name}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {algorithms.length === 0 && (
+                            <tr><td colSpan={networks.length + 1} className="py-4 text-center text-slate-500">None of these networks has published results yet.</td></tr>
+                        )}
+                        {algorithms.map(a => (
+                            <tr key={a} className="border-t border-slate-100">
+                                <th scope="row" className="py-2 pr-4 text-left font-semibold text-slate-900 whitespace-nowrap">
+                                    <span className={`inline-block w-2.5 h-2.5 rounded-full mr-2 ${resolveAlgorithm(results, a)?.color ?? 'bg-slate-300'}`}></span>
+                                    {resolveAlgorithm(results, a)?.label ?? a}
+                                </th>
+                                {networks.map((n, i) => {
+                                    const v = resultValue(n.id, a);
+                                    return (
+                                        <td key={n.id} className={`py-2 pr-4 text-right font-mono text-xs ${v !== undefined && v === bestPerNetwork[i] ? 'font-bold text-slate-900' : 'text-slate-600'}`}>
+                                            {v === undefined ? <span className="text-slate-300">—</span> : formatMetricValue(v, metric)}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
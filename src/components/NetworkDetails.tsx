@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useId, useRef } from 'react';
+import { BarChart3, Database, Loader2, X } from 'lucide-react';
+import { DEFAULT_METRIC, formatMetricValue, getMetric } from '../data/metrics';
+import { DATASET_URL, SIZE_LABELS, getNetwork } from '../data/networks';
+import { LATEST_RELEASE } from '../data/releases';
+import { HUMAN_BASELINE, getBaselineGap, getMetricValue, getNetworkEntries, resolveAlgorithm } from '../data/results';
+import { networkStats } from '../lib/sumoNetwork';
+import { NetworkMap } from './NetworkMap';
+import { useSumoNetwork } from './NetworkViewer';
+import { Picture } from './Picture';
+
+// --- NETWORK DETAILS ---
+// Modal with the map, computed statistics and published results of one network.
+
+const formatCount = (value: number | null | undefined) => value === null || value === undefined ? '—' : value.toLocaleString();
+
+const junctionLabel = (type: string) => type.replace(/_/g, ' ');
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+interface NetworkDetailsProps {
+    networkId: string;
+    onClose: () => void;
+    onShowResults?: (networkId: string) => void;
+    returnFocus?: React.RefObject<HTMLElement>; // Control that opened the dialog; defaults to whatever had focus
+}
+
+export const NetworkDetails: React.FC<NetworkDetailsProps> = ({ networkId, onClose, onShowResults, returnFocus }) => {
+    const info = getNetwork(networkId);
+    const state = useSumoNetwork(info?.networkFile, info?.name ?? networkId);
+    const stats = state.status === 'ready' ? networkStats(state.network) : null;
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const closeRef = useRef<HTMLButtonElement>(null);
+    const titleId = useId();
+
+    // Focus the dialog, trap Tab inside it, close on Escape, keep the page from scrolling
+    // underneath and hand focus back to the opener on close
+    useEffect(() => {
+        const previous = returnFocus?.current ?? document.activeElement as HTMLElement | null;
+        closeRef.current?.focus();
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+            if (e.key !== 'Tab' || !dialogRef.current) return;
+            const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+            const first = focusable[0], last = focusable[focusable.length - 1];
+            const current = document.activeElement;
+            if (!dialogRef.current.contains(current) || (e.shiftKey ? current === first : current === last)) {
+                e.preventDefault();
+                (e.shiftKey ? last : first)?.focus();
+            }
+        };
+        document.addEventListener('keydown', handleKey);
+        const overflow = document.body.style.overflow;
+        document.body.style.overflow = 'hidden';
+        return () => {
+            document.removeEventListener('keydown', handleKey);
+            document.body.style.overflow = overflow;
+            previous?.focus({ preventScroll: true });
+        };
+    }, []);
+
+    if (!info) return null;
+
+    const metric = getMetric(DEFAULT_METRIC)!;
+    const entries = getNetworkEntries(LATEST_RELEASE.results, networkId).filter(e => getMetricValue(e, metric.id) !== undefined);
+
+    // Network statistics show "—" until the file has loaded; demand figures only when published
+    const demand: [string, number | null][] = [['Trips', info.trips], ['Agents', info.agents], ['Origins', info.origins], ['Destinations', info.destinations]];
+    const tiles: [string, string][] = [
+        ['Nodes', formatCount(stats?.nodes)],
+        ['Edges', formatCount(stats?.edges ?? info.edges)],
+        ['Lane-km', stats ? stats.laneKm.toFixed(1) : '—'],
+        ['Traffic lights', formatCount(stats?.trafficLights)],
+        ...demand.filter(([, value]) => value !== null).map(([label, value]): [string, string] => [label, formatCount(value)]),
+    ];
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                ref={dialogRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby={titleId}
+                onClick={e => e.stopPropagation()}
+                className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6 md:p-8 flex flex-col gap-6 text-left"
+            >
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h3 id={titleId} className="text-2xl font-bold text-slate-900">{info.name}</h3>
+                        <p className="text-sm text-slate-500">
+                            {info.region}{info.sizeClass && <> · {SIZE_LABELS[info.sizeClass]} network</>}
+                        </p>
+                    </div>
+                    <button ref={closeRef} onClick={onClose} aria-label="Close" className="p-2 rounded-lg text-slate-400 hover:text-slate-900 hover:bg-slate-100 transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {state.status === 'ready' ? (
+                    <NetworkMap network={state.network} label={info.name} className="h-72" />
+                ) : (
+                    <div className="h-72 flex flex-col items-center justify-center gap-2 bg-slate-50 rounded-lg border border-slate-200 text-center p-4">
+                        {info.image && <Picture src={info.image} alt={`Map of ${info.name}`} className="max-h-48 object-contain mix-blend-multiply" />}
+                        {state.status === 'loading'
+                            ? <span className="flex items-center gap-2 text-xs text-slate-400"><Loader2 size={14} className="animate-spin" /> Loading the network file for statistics…</span>
+                            : <span className="text-xs text-slate-400">{state.message}</span>}
+                    </div>
+                )}
+
+                <dl className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {tiles.map(([label, value]) => (
+                        <div key={label} className="p-3 bg-slate-50 rounded-lg border border-slate-100">
+                            <dt className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{label}</dt>
+                            <dd className="text-lg font-mono font-medium text-slate-900">{value}</dd>
+                        </div>
+                    ))}
+                </dl>
+
+                {stats && (
+                    <div>
+                        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Junction types</h4>
+                        <div className="flex flex-wrap gap-2">
+                            {Object.entries(stats.junctionTypes).map(([type, count]) => (
+                                <span key={type} className="px-2 py-1 bg-slate-100 text-slate-600 text-xs rounded border border-slate-200">
+                                    {junctionLabel(type)} <span className="font-mono font-bold text-slate-900">{count}</span>
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <div>
+                    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{metric.label} · {LATEST_RELEASE.label}</h4>
+                    {entries.length === 0 ? (
+                        <p className="text-sm text-slate-500">No benchmark results have been published for {info.name} yet.</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <caption className="sr-only">{metric.label} per algorithm on {info.name}</caption>
+                            <tbody>
+                                {entries.map(e => {
+                                    const algorithm = resolveAlgorithm(LATEST_RELEASE.results, e.algorithm);
+                                    const gap = e.algorithm === HUMAN_BASELINE ? undefined : getBaselineGap(LATEST_RELEASE.results, e, metric.id);
+                                    return (
+                                        <tr key={e.algorithm} className="border-t border-slate-100">
+                                            <th scope="row" className="py-2 pr-4 text-left font-semibold text-slate-900 whitespace-nowrap">
+                                                <span className={`inline-block w-2.5 h-2.5 rounded-full mr-2 ${algorithm?.color ?? 'bg-slate-300'}`}></span>
+                                                {algorithm?.label ?? e.algorithm}
+                                            </th>
+                                            <td className="py-2 pr-4 text-right font-mono text-xs text-slate-900">{formatMetricValue(getMetricValue(e, metric.id)!, metric)}</td>
+                                            <td className="py-2 text-right font-mono text-xs text-slate-500 w-28">
+                                                {gap !== undefined && `${gap > 0 ? '+' : ''}${(gap * 100).toFixed(1)}% vs humans`}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                <div className="flex flex-wrap gap-3">
+                    {entries.length > 0 && onShowResults && (
+                        <button
+                            onClick={() => onShowResults(networkId)}
+                            className="flex items-center gap-2 px-4 py-2 bg-urb-blue text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+                        >
+                            <BarChart3 size={16} /> Open in results
+                        </button>
+                    )}
+                    <a
+                        href={DATASET_URL}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 px-4 py-2 bg-white text-slate-700 text-sm font-medium rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors"
+                    >
+                        <Database size={16} /> URB dataset
+                    </a>
+                </div>
+            </div>
+        </div>
+    );
+};
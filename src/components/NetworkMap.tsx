@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { Bounds, Point, SumoEdge, SumoNetwork } from '../lib/sumoNetwork';
+
+// --- NETWORK MAP ---
+// Pan/zoom SVG of a parsed SUMO network. The viewBox is in metres with y flipped,
+// so strokes use non-scaling widths and stay crisp at every zoom level.
+
+interface ViewBox {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+const MIN_WIDTH = 50; // m
+const WHEEL_SPEED = 0.0015;
+
+const EDGE_COLOR = '#475569';
+const HOVER_COLOR = '#2563EB';
+const TRAFFIC_LIGHT_COLOR = '#F59E0B';
+
+const pathOf = (shape: Point[]) =>
+    shape.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)} ${(-y).toFixed(1)}`).join('');
+
+const fitView = (b: Bounds): ViewBox => {
+    const pad = Math.max(b.maxX - b.minX, b.maxY - b.minY) * 0.03 || 10;
+    return { x: b.minX - pad, y: -b.maxY - pad, w: b.maxX - b.minX + 2 * pad, h: b.maxY - b.minY + 2 * pad };
+};
+
+export const isTrafficLight = (type: string) => type.startsWith('traffic_light');
+
+export const formatLength = (m: number) => m >= 1000 ? `${(m / 1000).toFixed(2)} km` : `${m.toFixed(0)} m`;
+
+export const formatSpeed = (ms: number) => `${(ms * 3.6).toFixed(0)} km/h`;
+
+/** Network coordinates to the map's SVG space, for overlays passed as children. */
+export const toSvg = ([x, y]: Point): Point => [x, -y];
+
+interface NetworkMapProps {
+    network: SumoNetwork;
+    label: string; // Network name, for screen readers
+    className?: string;
+    muted?: boolean; // Fade the roads so an overlay stands out
+    children?: React.ReactNode; // Overlay in SVG space, drawn above the roads
+}
+
+export const NetworkMap: React.FC<NetworkMapProps> = ({ network, label, className = 'h-[28rem]', muted = false, children }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ clientX: number, clientY: number, view: ViewBox } | null>(null);
+    const fit = useMemo(() => fitView(network.bounds), [network]);
+    const [view, setView] = useState(fit);
+    const [hovered, setHovered] = useState<SumoEdge | null>(null);
+    const [pointer, setPointer] = useState<{ x: number, y: number } | null>(null);
+
+    useEffect(() => setView(fit), [fit]);
+
+    // The road layers are built once per network: pointer moves and pans re-render only the hover, tooltip and viewBox
+    const junctionLayer = useMemo(() => (
+        <g>
+            {network.junctions.filter(j => j.shape.length >= 3).map(j => (
+                <polygon
+                    key={j.id}
+                    points={j.shape.map(([x, y]) => `${x},${-y}`).join(' ')}
+                    fill={isTrafficLight(j.type) ? TRAFFIC_LIGHT_COLOR : '#cbd5e1'}
+                />
+            ))}
+        </g>
+    ), [network]);
+    const edges = useMemo(() => network.edges.map(edge => ({ edge, d: pathOf(edge.shape) })), [network]);
+    const edgeLayer = useMemo(() => edges.map(({ edge, d }) => (
+        <path key={edge.id} d={d} stroke={muted ? '#cbd5e1' : EDGE_COLOR} strokeWidth={0.5 + edge.lanes.length * 0.75} vectorEffect="non-scaling-stroke" />
+    )), [edges, muted]);
+    // Wide transparent copies make thin roads easy to hover
+    const hitLayer = useMemo(() => (
+        <g fill="none" stroke="transparent" strokeWidth={10}>
+            {edges.map(({ edge, d }) => (
+                <path key={edge.id} d={d} vectorEffect="non-scaling-stroke" onPointerEnter={() => setHovered(edge)} onPointerLeave={() => setHovered(h => h === edge ? null : h)} />
+            ))}
+        </g>
+    ), [edges]);
+
+    /** Client pixels to map coordinates, honouring the letterboxing of the viewBox. */
+    const toMap = (clientX: number, clientY: number) => {
+        const ctm = svgRef.current?.getScreenCTM();
+        if (!ctm) return null;
+        const p = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+        return { x: p.x, y: p.y };
+    };
+
+    const zoomAt = (center: { x: number, y: number }, factor: number) => setView(v => {
+        const w = Math.min(Math.max(v.w * factor, MIN_WIDTH), fit.w * 4);
+        const f = w / v.w;
+        return { x: center.x - (center.x - v.x) * f, y: center.y - (center.y - v.y) * f, w, h: v.h * f };
+    });
+    const zoomCenter = (factor: number) => zoomAt({ x: view.x + view.w / 2, y: view.y + view.h / 2 }, factor);
+
+    // React registers wheel listeners as passive, which would let the page scroll while zooming
+    useEffect(() => {
+        const svg = svgRef.current;
+        if (!svg) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const p = toMap(e.clientX, e.clientY);
+            if (p) zoomAt(p, Math.exp(e.deltaY * WHEEL_SPEED));
+        };
+        svg.addEventListener('wheel', handleWheel, { passive: false });
+        return () => svg.removeEventListener('wheel', handleWheel);
+    }, [fit]);
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (e.button !== 0) return;
+        dragRef.current = { clientX: e.clientX, clientY: e.clientY, view };
+        e.currentTarget.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        const rect = containerRef.current!.getBoundingClientRect();
+        setPointer({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+        const drag = dragRef.current;
+        const scale = svgRef.current?.getScreenCTM()?.a;
+        if (!drag || !scale) return;
+        setView({ ...drag.view, x: drag.view.x - (e.clientX - drag.clientX) / scale, y: drag.view.y - (e.clientY - drag.clientY) / scale });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const step = view.w * 0.1;
+        const pans: Record<string, [number, number]> = { ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step] };
+        if (pans[e.key]) setView(v => ({ ...v, x: v.x + pans[e.key][0], y: v.y + pans[e.key][1] }));
+        else if (e.key === '+' || e.key === '=') zoomCenter(0.8);
+        else if (e.key === '-') zoomCenter(1.25);
+        else if (e.key === '0') setView(fit);
+        else return;
+        e.preventDefault();
+    };
+
+    const buttonStyle = 'p-1.5 bg-white/90 border border-slate-200 rounded text-slate-600 hover:text-slate-900 hover:bg-white transition-colors';
+
+    return (
+        <div ref={containerRef} className={`relative bg-slate-50 rounded-lg border border-slate-200 overflow-hidden ${className}`}>
+            <svg
+                ref={svgRef}
+                viewBox={`${view.x} ${view.y} ${view.w} ${view.h}`}
+                className="w-full h-full cursor-grab active:cursor-grabbing touch-none outline-none focus-visible:ring-2 focus-visible:ring-urb-blue"
+                tabIndex={0}
+                role="img"
+                aria-label={`Road network of ${label}: ${network.edges.length} edges and ${network.junctions.length} junctions. Arrow keys pan, plus and minus zoom, 0 resets.`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => { dragRef.current = null; }}
+                onPointerLeave={() => setPointer(null)}
+                onKeyDown={handleKeyDown}
+            >
+                {junctionLayer}
+                <g fill="none" strokeLinecap="round" strokeLinejoin="round" pointerEvents="none">
+                    {edgeLayer}
+                    {hovered && <path d={pathOf(hovered.shape)} stroke={HOVER_COLOR} strokeWidth={2 + hovered.lanes.length} vectorEffect="non-scaling-stroke" />}
+                </g>
+                {hitLayer}
+                {children}
+            </svg>
+
+            <div className="absolute top-2 right-2 flex flex-col gap-1">
+                <button onClick={() => zoomCenter(0.8)} className={buttonStyle} aria-label="Zoom in"><ZoomIn size={14} /></button>
+                <button onClick={() => zoomCenter(1.25)} className={buttonStyle} aria-label="Zoom out"><ZoomOut size={14} /></button>
+                <button onClick={() => setView(fit)} className={buttonStyle} aria-label="Reset view"><Maximize2 size={14} /></button>
+            </div>
+
+            <div className="absolute bottom-2 left-2 flex items-center gap-3 px-2 py-1 bg-white/90 rounded text-[10px] text-slate-500">
+                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm" style={{ backgroundColor: TRAFFIC_LIGHT_COLOR }}></span>Traffic light</span>
+                <span>Line width: lanes</span>
+            </div>
+
+            {hovered && pointer && (
+                <div
+                    role="tooltip"
+                    className="absolute z-20 px-3 py-2 bg-slate-900 text-white text-[11px] font-mono rounded-md shadow-lg whitespace-nowrap pointer-events-none -translate-x-1/2 -translate-y-full"
+                    style={{ left: pointer.x, top: pointer.y - 12 }}
+                >
+                    <div className="font-sans font-bold">{hovered.name ?? hovered.id}</div>
+                    {hovered.name && <div className="text-slate-400">{hovered.id}</div>}
+                    <div>Speed limit: {formatSpeed(hovered.speed)}</div>
+                    <div>Lanes: {hovered.lanes.length}</div>
+                    <div>Length: {formatLength(hovered.length)}</div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { ChevronDown, Search } from 'lucide-react';
+import { DATASET_NETWORK_COUNT, NETWORKS, NetworkInfo, SIZE_LABELS, getNetwork, matchesNetwork } from '../data/networks';
+
+interface NetworkPickerProps {
+    value: string;
+    onChange: (id: string) => void;
+    available?: string[]; // Networks with data; others are listed but marked
+    networks?: NetworkInfo[];
+}
+
+// Searchable combobox over the network registry
+export const NetworkPicker: React.FC<NetworkPickerProps> = ({ value, onChange, available, networks = NETWORKS }) => {
+    const [open, setOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [highlighted, setHighlighted] = useState(0);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const listId = useId();
+
+    const options = useMemo(() => {
+        const matches = networks.filter(n => matchesNetwork(n, query));
+        // Networks with results first, registry order otherwise
+        return available ? [...matches.filter(n => available.includes(n.id)), ...matches.filter(n => !available.includes(n.id))] : matches;
+    }, [networks, query, available]);
+
+    useEffect(() => {
+        if (!open) return;
+        const handleClick = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [open]);
+
+    useEffect(() => setHighlighted(0), [query]);
+
+    const select = (id: string) => {
+        onChange(id);
+        setOpen(false);
+        setQuery('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setOpen(true);
+            setHighlighted(h => Math.min(h + 1, options.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setHighlighted(h => Math.max(h - 1, 0));
+        } else if (e.key === 'Enter' && open && options[highlighted]) {
+            e.preventDefault();
+            select(options[highlighted].id);
+        } else if (e.key === 'Escape') {
+            setOpen(false);
+        }
+    };
+
+    const current = getNetwork(value);
+
+    return (
+        <div ref={containerRef} className="relative w-full">
+            <div className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-lg focus-within:border-urb-blue transition-colors">
+                <Search size={14} className="text-slate-400 flex-shrink-0" />
+                <input
+                    ref={inputRef}
+                    role="combobox"
+                    aria-expanded={open}
+                    aria-controls={listId}
+                    aria-activedescendant={open && options[highlighted] ? `${listId}-${options[highlighted].id}` : undefined}
+                    aria-label="Search networks"
+                    value={open ? query : current?.name ?? value}
+                    placeholder="Search networks…"
+                    onFocus={() => setOpen(true)}
+                    onChange={e => { setQuery(e.target.value); setOpen(true); }}
+                    onKeyDown={handleKeyDown}
+                    className="flex-1 min-w-0 text-sm font-medium text-slate-900 bg-transparent outline-none"
+                />
+                <button onClick={() => { setOpen(!open); inputRef.current?.focus(); }} aria-label="Toggle network list" className="text-slate-400 hover:text-slate-900">
+                    <ChevronDown size={16} className={`transition-transform ${open ? 'rotate-180' : ''}`} />
+                </button>
+            </div>
+
+            {open && (
+                <ul id={listId} role="listbox" className="absolute z-20 mt-1 w-full max-h-72 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg py-1">
+                    {options.length === 0 && <li className="px-3 py-2 text-xs text-slate-400">No networks match "{query}"</li>}
+                    {options.map((net, i) => {
+                        const hasData = !available || available.includes(net.id);
+                        return (
+                            <li
+                                key={net.id}
+                                id={`${listId}-${net.id}`}
+                                role="option"
+                                aria-selected={net.id === value}
+                                onMouseEnter={() => setHighlighted(i)}
+                                onMouseDown={e => { e.preventDefault(); select(net.id); }}
+                                className={`px-3 py-2 cursor-pointer flex items-center justify-between gap-2 ${i === highlighted ? 'bg-slate-100' : ''} ${net.id === value ? 'text-urb-blue' : 'text-slate-700'}`}
+                            >
+                                <div className="min-w-0">
+                                    <div className="text-sm font-medium truncate">{net.name}</div>
+                                    <div className="text-[10px] text-slate-400 truncate">
+                                        {net.region}{net.sizeClass && ` · ${SIZE_LABELS[net.sizeClass]}`}{net.trips !== null && ` · ${net.trips.toLocaleString()} trips`}
+                                    </div>
+                                </div>
+                                {!hasData && <span className="text-[10px] font-mono text-slate-300 uppercase flex-shrink-0">No results</span>}
+                            </li>
+                        );
+                    })}
+                    {networks === NETWORKS && NETWORKS.length < DATASET_NETWORK_COUNT && (
+                        <li role="presentation" className="px-3 py-2 mt-1 border-t border-slate-100 text-[10px] text-slate-400">
+                            {NETWORKS.length} of the {DATASET_NETWORK_COUNT} dataset networks are listed here.
+                        </li>
+                    )}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { FileUp, Loader2, Map as MapIcon } from 'lucide-react';
+import { NETWORKS, getNetwork } from '../data/networks';
+import { assetUrl } from '../lib/assets';
+import { SumoNetwork, fetchSumoNetwork, networkStats, parseSumoNetwork } from '../lib/sumoNetwork';
+import { DemandView } from './DemandView';
+import { NetworkMap, formatLength } from './NetworkMap';
+import { NetworkPicker } from './NetworkPicker';
+
+export type LoadState =
+    | { status: 'loading' }
+    | { status: 'error', message: string }
+    | { status: 'ready', network: SumoNetwork, source: string, label: string };
+
+/**
+ * Fetches and parses a registry network file; `label` names the network in messages.
+ * Until `enabled`, nothing is fetched and the state stays loading.
+ */
+export const useSumoNetwork = (url: string | null | undefined, label: string, enabled = true): LoadState => {
+    const [state, setState] = useState<LoadState>({ status: 'loading' });
+
+    useEffect(() => {
+        if (!enabled) return;
+        if (!url) {
+            setState({ status: 'error', message: `No network file is published for ${label}.` });
+            return;
+        }
+        let cancelled = false;
+        setState({ status: 'loading' });
+        fetchSumoNetwork(assetUrl(url))
+            .then(network => { if (!cancelled) setState({ status: 'ready', network, source: url.split('/').pop()!, label }); })
+            .catch(err => { if (!cancelled) setState({ status: 'error', message: `Could not load ${label}: ${err instanceof Error ? err.message : String(err)}` }); });
+        return () => { cancelled = true; };
+    }, [url, enabled]);
+
+    return state;
+};
+
+/** True once the element comes within `margin` of the viewport, and from then on. */
+export const useNearViewport = (ref: React.RefObject<Element>, margin = '400px') => {
+    const [near, setNear] = useState(false);
+
+    useEffect(() => {
+        const element = ref.current;
+        if (near || !element) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) setNear(true);
+        }, { rootMargin: `${margin} 0px` });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [near]);
+
+    return near;
+};
+
+const withNetworkFile = NETWORKS.filter(n => n.networkFile);
+
+// --- NETWORK VIEWER ---
+// Loads a network's .net.xml from the registry, or one picked from disk, and shows it on a NetworkMap.
+
+export const NetworkViewer: React.FC<{ initialNetwork?: string }> = ({ initialNetwork = withNetworkFile[0]?.id ?? NETWORKS[0].id }) => {
+    const [networkId, setNetworkId] = useState(initialNetwork);
+    const [local, setLocal] = useState<LoadState | null>(null); // A file opened from disk replaces the registry one
+    const [layer, setLayer] = useState<'roads' | 'demand'>('roads');
+    const inputRef = useRef<HTMLInputElement>(null);
+    const info = getNetwork(networkId);
+    const remote = useSumoNetwork(local ? null : info?.networkFile, info?.name ?? networkId);
+    const state = local ?? remote;
+
+    const selectNetwork = (id: string) => {
+        setLocal(null);
+        setNetworkId(id);
+    };
+
+    const loadFile = async (file: File) => {
+        setLocal({ status: 'loading' });
+        try {
+            setLocal({ status: 'ready', network: parseSumoNetwork(await file.text()), source: file.name, label: file.name });
+        } catch (err) {
+            setLocal({ status: 'error', message: `${file.name}: ${err instanceof Error ? err.message : String(err)}` });
+        }
+    };
+
+    const stats = state.status === 'ready' ? networkStats(state.network) : null;
+
+    const layerStyle = (active: boolean) =>
+        `px-3 py-1 rounded-md text-xs font-bold uppercase tracking-wider transition-colors ${active ? 'bg-white text-urb-blue shadow-sm' : 'text-slate-500 hover:text-slate-900'}`;
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col gap-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-3">
+                    <NetworkPicker value={networkId} onChange={selectNetwork} available={withNetworkFile.map(n => n.id)} />
+                    <div className="flex bg-slate-100 p-1 rounded-lg" role="radiogroup" aria-label="Map layer">
+                        {(['roads', 'demand'] as const).map(l => (
+                            <button key={l} role="radio" aria-checked={layer === l} onClick={() => setLayer(l)} className={layerStyle(layer === l)}>
+                                {l === 'roads' ? 'Roads' : 'Demand'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <input ref={inputRef} type="file" accept=".xml,.net.xml" onChange={e => { const file = e.target.files?.[0]; if (file) loadFile(file); e.target.value = ''; }} className="hidden" />
+                    <button
+                        onClick={() => inputRef.current?.click()}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold uppercase tracking-wider text-slate-600 hover:bg-slate-100 transition-colors"
+                    >
+                        <FileUp size={14} /> Open .net.xml
+                    </button>
+                </div>
+            </div>
+
+            {state.status === 'ready' && (
+                // Kept mounted while the roads are shown, so a loaded demand file survives switching layers
+                <div className={layer === 'demand' ? '' : 'hidden'}>
+                    <DemandView key={`${networkId}/${state.source}`} network={state.network} label={state.label} />
+                </div>
+            )}
+            {state.status === 'ready' ? layer === 'roads' && (
+                <>
+                    <NetworkMap network={state.network} label={state.label} />
+                    <div className="flex flex-wrap justify-between gap-x-6 gap-y-1 text-xs text-slate-500">
+                        <span className="font-mono">{state.source}</span>
+                        <span>
+                            <strong className="text-slate-900">{stats!.edges.toLocaleString()}</strong> edges ·{' '}
+                            <strong className="text-slate-900">{stats!.nodes.toLocaleString()}</strong> junctions ·{' '}
+                            <strong className="text-slate-900">{formatLength(stats!.laneKm * 1000)}</strong> of lanes
+                        </span>
+                        <span>Drag to pan, scroll to zoom, hover a road for details.</span>
+                    </div>
+                </>
+            ) : (
+                <div className="h-[28rem] flex flex-col items-center justify-center gap-3 text-center bg-slate-50 rounded-lg border border-slate-200">
+                    {state.status === 'loading' ? (
+                        <>
+                            <Loader2 size={24} className="text-slate-300 animate-spin" />
+                            <p className="text-sm text-slate-500">Loading and parsing the network…</p>
+                        </>
+                    ) : (
+                        <>
+                            <MapIcon size={24} className="text-slate-300" />
+                            <p role="alert" className="text-sm font-medium text-slate-600 max-w-md">{state.message}</p>
+                            <p className="text-xs text-slate-400">Open a SUMO .net.xml from your machine instead; it is parsed in your browser.</p>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { vendoredAsset } from '../lib/assets';
+
+// --- PICTURE ---
+// <img> for a third-party image listed in src/data/assets.ts. Serves the vendored
+// AVIF/WebP/original variants when the build made them, and the remote URL otherwise
+// or if the local copy fails to load.
+
+type PictureProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> & {
+    src: string; // Remote URL, as listed in REMOTE_ASSETS
+};
+
+export const Picture: React.FC<PictureProps> = ({ src, alt, ...props }) => {
+    const [failed, setFailed] = useState(false);
+    const asset = failed ? undefined : vendoredAsset(src);
+
+    if (!asset) return <img src={src} alt={alt} loading="lazy" {...props} />;
+
+    // display: contents keeps the <img> sized by its own classes, as if unwrapped
+    return (
+        <picture className="contents">
+            {asset.avif && <source type="image/avif" srcSet={asset.avif} />}
+            {asset.webp && <source type="image/webp" srcSet={asset.webp} />}
+            <img src={asset.src} srcSet={asset.srcSet} alt={alt} loading="lazy" onError={() => setFailed(true)} {...props} />
+        </picture>
+    );
+};
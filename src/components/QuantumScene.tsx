@@ -4,10 +4,16 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useRef, useMemo, useEffect, Suspense, useState } from 'react';
+import React, { useRef, useMemo, useEffect, useLayoutEffect, Suspense, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { Environment, PerspectiveCamera, OrbitControls, Instance, Instances, Text3D, Center } from '@react-three/drei';
 import * as THREE from 'three';
+import { ENVIRONMENT_MAP_URL, TEXT3D_FONT_URL } from '../data/assets';
+import { assetUrl } from '../lib/assets';
+import { FcdTrace, sampleTrace, traceEnd } from '../lib/fcd';
+import { Random, createRandom, randomInt } from '../lib/random';
+import { networkSceneGraph, sceneProjection, sceneScale } from '../lib/sceneGraph';
+import { Bounds, SumoNetwork } from '../lib/sumoNetwork';
 
 // Add type declarations for R3F intrinsic elements
 declare global {
@@ -35,24 +41,64 @@ declare global {
 }
 
 // --- UTILS ---
-const randomRange = (min: number, max: number) => Math.random() * (max - min) + min;
+// Every random draw comes from a generator seeded by the scene's `seed` prop, so a
+// seed always gives the same city. Each component gets its own stream, so changing
+// one (e.g. the particle count) does not reshuffle the others.
+const DEFAULT_SEED = 2025;
+
+const STREAMS = { city: 0, buildings: 1, traffic: 2, globe: 3 };
+
+const streamRandom = (seed: number, stream: keyof typeof STREAMS) => createRandom(seed * 4 + STREAMS[stream]);
+
+const randomRange = (random: Random, min: number, max: number) => random() * (max - min) + min;
+
+export const VEHICLE_COLORS = { cav: '#3b82f6', human: '#f97316' };
 
 // --- CITY DATA GENERATION ---
-const useCityData = (count = 60, range = 25) => {
+interface CityData {
+  nodes: THREE.Vector3[];
+  connections: THREE.Vector3[]; // Pairs of start/end points
+  adjacency: number[][];
+  sites: THREE.Vector3[]; // Building plots
+  roadWidth: number;
+  buildingSize: number; // Footprint scale
+}
+
+/** A parsed SUMO network in the same shape as a generated city, drawn at its real scale. */
+const networkCity = (network: SumoNetwork, range: number): CityData => {
+  const graph = networkSceneGraph(network, range);
+  const toVector = ([x, z]: [number, number]) => new THREE.Vector3(x, 0, z);
+  const nodes = graph.points.map(toVector);
+  return {
+    nodes,
+    connections: graph.adjacency.flatMap((next, i) => next.flatMap(j => [nodes[i], nodes[j]])),
+    adjacency: graph.adjacency,
+    sites: graph.sites.map(toVector),
+    // Real networks are far denser than the generated grid
+    roadWidth: 0.25,
+    buildingSize: 0.4,
+  };
+};
+
+/** A generated grid city, or the given network when there is one. */
+const useCityData = (count = 60, range = 25, seed = DEFAULT_SEED, network?: SumoNetwork): CityData => {
   return useMemo(() => {
+    if (network) return networkCity(network, range);
+
+    const random = streamRandom(seed, 'city');
     const nodes: THREE.Vector3[] = [];
     const connections: THREE.Vector3[] = []; // Pairs of start/end points
     const adjacency: number[][] = Array(count).fill(0).map(() => []);
 
     // 1. Generate Nodes on a Grid-like structure with noise (XZ plane)
     for (let i = 0; i < count; i++) {
-        let x = randomRange(-range, range);
-        let z = randomRange(-range, range);
+        let x = randomRange(random, -range, range);
+        let z = randomRange(random, -range, range);
         
         // Snap to grid vaguely
         const gridSize = 6;
-        x = Math.round(x / gridSize) * gridSize + randomRange(-0.5, 0.5);
-        z = Math.round(z / gridSize) * gridSize + randomRange(-0.5, 0.5);
+        x = Math.round(x / gridSize) * gridSize + randomRange(random, -0.5, 0.5);
+        z = Math.round(z / gridSize) * gridSize + randomRange(random, -0.5, 0.5);
         
         // Avoid duplicates or too close
         const tooClose = nodes.some(n => n.distanceTo(new THREE.Vector3(x, 0, z)) < 4);
@@ -88,13 +134,19 @@ const useCityData = (count = 60, range = 25) => {
       });
     });
 
-    return { nodes, connections, adjacency };
-  }, [count, range]);
+    return { nodes, connections, adjacency, sites: nodes, roadWidth: 0.6, buildingSize: 1 };
+  }, [count, range, seed, network]);
 };
 
 // --- COMPONENTS ---
 
-const Buildings = ({ nodes }: { nodes: THREE.Vector3[] }) => {
+const Buildings = ({ nodes, seed, size = 1 }: { nodes: THREE.Vector3[], seed: number, size?: number }) => {
+    // Drawn once per city rather than on every render
+    const sizes = useMemo(() => {
+        const random = streamRandom(seed, 'buildings');
+        return nodes.map(() => ({ y: 0.5 + random() * 2, height: 1 + random() * 3 }));
+    }, [nodes, seed]);
+
     return (
         <Instances range={nodes.length}>
             <boxGeometry args={[1.8, 1, 1.8]} />
@@ -102,54 +154,54 @@ const Buildings = ({ nodes }: { nodes: THREE.Vector3[] }) => {
             {nodes.map((node, i) => (
                 <Instance
                     key={i}
-                    position={[node.x, 0.5 + Math.random() * 2, node.z]}
-                    scale={[1, 1 + Math.random() * 3, 1]}
+                    position={[node.x, sizes[i].y, node.z]}
+                    scale={[size, sizes[i].height, size]}
                 />
             ))}
         </Instances>
     )
 }
 
-const RoadNetwork = ({ connections }: { connections: THREE.Vector3[] }) => {
-    const roads = useMemo(() => {
-        const segments = [];
-        for(let i=0; i<connections.length; i+=2) {
-            const start = connections[i];
-            const end = connections[i+1];
+const RoadNetwork = ({ connections, width = 0.6 }: { connections: THREE.Vector3[], width?: number }) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const count = connections.length / 2;
+
+    // Matrices are written directly: real networks have thousands of segments
+    useLayoutEffect(() => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const dummy = new THREE.Object3D();
+        for (let i = 0; i < count; i++) {
+            const start = connections[i * 2];
+            const end = connections[i * 2 + 1];
             
             const length = start.distanceTo(end);
-            const mid = new THREE.Vector3().addVectors(start, end).multiplyScalar(0.5);
-            
-            // Calculate rotation to align with the connection
-            const direction = new THREE.Vector3().subVectors(end, start).normalize();
+            dummy.position.addVectors(start, end).multiplyScalar(0.5);
             
             // Box default is along Z axis for length if we use args [w, h, 1]
-            // We need to rotate (0,0,1) to `direction`
-            const quaternion = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), direction);
-            
-            segments.push({ position: mid, quaternion, length });
+            // We need to rotate (0,0,1) to the direction of the connection
+            const direction = new THREE.Vector3().subVectors(end, start).normalize();
+            dummy.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), direction);
+            dummy.scale.set(1, 1, length);
+            dummy.updateMatrix();
+            mesh.setMatrixAt(i, dummy.matrix);
         }
-        return segments;
-    }, [connections]);
+        mesh.instanceMatrix.needsUpdate = true;
+    }, [connections, count]);
 
     return (
-        <Instances range={roads.length}>
-            {/* Flat road: Width 0.6, Height 0.05, Length 1 (scaled) */}
-            <boxGeometry args={[0.6, 0.05, 1]} />
+        // The instance count is fixed when the mesh is created, so a new network gets a new mesh
+        <instancedMesh key={count} ref={meshRef} args={[undefined, undefined, count]} frustumCulled={false}>
+            {/* Flat road: Height 0.05, Length 1 (scaled) */}
+            <boxGeometry args={[width, 0.05, 1]} />
             <meshStandardMaterial color="#475569" roughness={0.8} />
-            {roads.map((road, i) => (
-                <Instance
-                    key={i}
-                    position={road.position}
-                    quaternion={road.quaternion}
-                    scale={[1, 1, road.length]} 
-                />
-            ))}
-        </Instances>
+        </instancedMesh>
     );
 };
 
-const Traffic = ({ nodes, adjacency, brainRef }: { nodes: THREE.Vector3[], adjacency: number[][], brainRef: React.RefObject<THREE.Group | null> }) => {
+const SEGMENT_LENGTH = 8; // Typical road length of the generated city, in scene units
+
+const Traffic = ({ nodes, adjacency, brainRef, seed }: { nodes: THREE.Vector3[], adjacency: number[][], brainRef: React.RefObject<THREE.Group | null>, seed: number }) => {
   const particleCount = 150;
   const meshRef = useRef<THREE.InstancedMesh>(null);
   const dummy = useMemo(() => new THREE.Object3D(), []);
@@ -158,24 +210,28 @@ const Traffic = ({ nodes, adjacency, brainRef }: { nodes: THREE.Vector3[], adjac
   // Using a Ref for the map to avoid re-renders, as we modify it in useFrame
   const activeBeamsRef = useRef(new Map<number, number>());
   
-  // Initialize particles
-  const particles = useMemo(() => {
-    if (nodes.length === 0) return [];
-    return new Array(particleCount).fill(0).map(() => {
-      const startIdx = Math.floor(Math.random() * nodes.length);
+  // Initialize particles. The same generator keeps picking turns and beams afterwards.
+  const { particles, random, starts } = useMemo(() => {
+    const random = streamRandom(seed, 'traffic');
+    // Nodes a vehicle can leave; on real networks some roads end at the map edge
+    const starts = nodes.map((_, i) => i).filter(i => adjacency[i].length > 0);
+    if (starts.length === 0) return { particles: [], random, starts };
+    const particles = new Array(particleCount).fill(0).map(() => {
+      const startIdx = starts[randomInt(random, starts.length)];
       const neighbors = adjacency[startIdx];
-      let endIdx = neighbors.length > 0 ? neighbors[Math.floor(Math.random() * neighbors.length)] : startIdx;
+      let endIdx = neighbors.length > 0 ? neighbors[randomInt(random, neighbors.length)] : startIdx;
       
       return {
         current: startIdx,
         next: endIdx,
-        progress: Math.random(),
-        speed: randomRange(0.015, 0.04), // Slower cruising speed
-        isCAV: Math.random() > 0.4, // 60% CAVs
-        offset: randomRange(-0.15, 0.15)
+        progress: random(),
+        speed: randomRange(random, 0.015, 0.04), // Slower cruising speed
+        isCAV: random() > 0.4, // 60% CAVs
+        offset: randomRange(random, -0.15, 0.15)
       };
     });
-  }, [nodes, adjacency]);
+    return { particles, random };
+  }, [nodes, adjacency, seed]);
 
   // Buffer Geometry for Beams
   const beamGeoRef = useRef<THREE.BufferGeometry>(null);
@@ -196,17 +252,18 @@ const Traffic = ({ nodes, adjacency, brainRef }: { nodes: THREE.Vector3[], adjac
     particles.forEach((p, i) => {
         if (p.current === p.next) return; 
 
-        p.progress += p.speed * delta * 10;
+        // Same speed on long and short segments; real edges are split at every bend
+        p.progress += (p.speed * delta * 10 * SEGMENT_LENGTH) / Math.max(nodes[p.current].distanceTo(nodes[p.next]), 0.01);
 
         if (p.progress >= 1) {
             p.progress = 0;
             p.current = p.next;
-            const neighbors = adjacency[p.current];
-            if (neighbors.length > 0) {
-                p.next = neighbors[Math.floor(Math.random() * neighbors.length)];
-            } else {
-                p.next = p.current; 
+            if (adjacency[p.current].length === 0) {
+                // Dead end: reappear somewhere else instead of piling up
+                p.current = starts[randomInt(random, starts.length)];
             }
+            const neighbors = adjacency[p.current];
+            p.next = neighbors[randomInt(random, neighbors.length)];
         }
 
         const startPos = nodes[p.current];
@@ -235,7 +292,7 @@ const Traffic = ({ nodes, adjacency, brainRef }: { nodes: THREE.Vector3[], adjac
         meshRef.current!.setMatrixAt(i, dummy.matrix);
 
         // Color
-        const color = p.isCAV ? new THREE.Color("#3b82f6") : new THREE.Color("#f97316");
+        const color = new THREE.Color(p.isCAV ? VEHICLE_COLORS.cav : VEHICLE_COLORS.human);
         meshRef.current!.setColorAt(i, color);
     });
     meshRef.current.instanceMatrix.needsUpdate = true;
@@ -258,13 +315,13 @@ const Traffic = ({ nodes, adjacency, brainRef }: { nodes: THREE.Vector3[], adjac
         if (activeBeamsRef.current.size < maxBeams) {
             // Try a few times to find a random CAV that isn't already connected
             for (let tryCount = 0; tryCount < 5; tryCount++) {
-                const rndIdx = Math.floor(Math.random() * particles.length);
+                const rndIdx = randomInt(random, particles.length);
                 const p = particles[rndIdx];
                 
                 // Only target CAVs that don't have an active beam
                 if (p.isCAV && !activeBeamsRef.current.has(rndIdx)) {
                     // Beam lasts between 0.2 and 1.0 seconds
-                    const duration = randomRange(0.2, 1.0);
+                    const duration = randomRange(random, 0.2, 1.0);
                     activeBeamsRef.current.set(rndIdx, time + duration);
                     break; // Spawned one, break loop to spread out creation
                 }
@@ -339,7 +396,7 @@ const BlinkingNode: React.FC<{ position: THREE.Vector3; phase: number }> = ({ po
     );
 }
 
-const GlobeController = React.forwardRef<THREE.Group, any>((props, ref) => {
+const GlobeController = React.forwardRef<THREE.Group, { seed: number }>(({ seed }, ref) => {
     const globeRef = useRef<THREE.Group>(null);
 
     useFrame((state) => {
@@ -356,6 +413,7 @@ const GlobeController = React.forwardRef<THREE.Group, any>((props, ref) => {
 
     // Generate random blinking points on surface
     const points = useMemo(() => {
+        const random = streamRandom(seed, 'globe');
         const pts: { pos: THREE.Vector3, phase: number }[] = [];
         for(let i=0; i<8; i++) {
             const phi = Math.acos( -1 + ( 2 * i ) / 8 );
@@ -363,18 +421,18 @@ const GlobeController = React.forwardRef<THREE.Group, any>((props, ref) => {
             const r = 1.6; // slightly outside globe
             pts.push({
                 pos: new THREE.Vector3( r * Math.cos(theta) * Math.sin(phi), r * Math.cos(phi), r * Math.sin(theta) * Math.sin(phi) ),
-                phase: Math.random() * Math.PI * 2
+                phase: random() * Math.PI * 2
             });
         }
         return pts;
-    }, []);
+    }, [seed]);
 
     return (
         <group ref={ref} position={[0, 8, 0]}>
             {/* 3D Label */}
             <Center position={[0, 2.8, 0]}>
                 <Text3D
-                    font="https://raw.githubusercontent.com/mrdoob/three.js/master/examples/fonts/helvetiker_bold.typeface.json"
+                    font={assetUrl(TEXT3D_FONT_URL)}
                     size={0.6}
                     height={0.1}
                     curveSegments={12}
@@ -431,8 +489,13 @@ const GlobeController = React.forwardRef<THREE.Group, any>((props, ref) => {
 
 // --- MAIN SCENES ---
 
-export const TrafficHeroScene: React.FC = () => {
-  const { nodes, connections, adjacency } = useCityData(80, 25);
+interface SceneProps {
+  seed?: number; // Same seed, same city and traffic
+  network?: SumoNetwork; // Draw this network instead of a generated city
+}
+
+export const TrafficHeroScene: React.FC<SceneProps> = ({ seed = DEFAULT_SEED, network }) => {
+  const { nodes, connections, adjacency, sites, roadWidth, buildingSize } = useCityData(80, 25, seed, network);
   const brainRef = useRef<THREE.Group>(null);
 
   return (
@@ -453,13 +516,13 @@ export const TrafficHeroScene: React.FC = () => {
 
         <Suspense fallback={null}>
             <group position={[0, 0, 0]}>
-                 <Buildings nodes={nodes} />
-                 <RoadNetwork connections={connections} />
-                 <Traffic nodes={nodes} adjacency={adjacency} brainRef={brainRef} />
-                 <GlobeController ref={brainRef} />
+                 <Buildings nodes={sites} seed={seed} size={buildingSize} />
+                 <RoadNetwork connections={connections} width={roadWidth} />
+                 <Traffic nodes={nodes} adjacency={adjacency} brainRef={brainRef} seed={seed} />
+                 <GlobeController ref={brainRef} seed={seed} />
             </group>
 
-            <Environment preset="city" />
+            <Environment files={assetUrl(ENVIRONMENT_MAP_URL)} />
         </Suspense>
 
         <OrbitControls 
@@ -475,30 +538,94 @@ export const TrafficHeroScene: React.FC = () => {
   );
 };
 
-export const SimulationScene: React.FC = () => {
-  const { nodes, connections, adjacency } = useCityData(60, 30);
+// --- REPLAY ---
+
+/** Playback state shared with the controls outside the canvas; mutated in place, read every frame. */
+export interface ReplayClock {
+  time: number; // s, simulation time
+  playing: boolean;
+  speed: number; // Simulation seconds per real second
+}
+
+const CAR_LENGTH = 5; // m
+const MIN_CAR_LENGTH = 0.3; // Scene units; real cars would be specks on a whole network
+
+const Replay = ({ trace, bounds, range, clock }: { trace: FcdTrace, bounds: Bounds, range: number, clock: ReplayClock }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+  const project = useMemo(() => sceneProjection(bounds, range), [bounds, range]);
+  const length = Math.max(CAR_LENGTH * sceneScale(bounds, range), MIN_CAR_LENGTH);
+  const colors = useMemo(() => ({ cav: new THREE.Color(VEHICLE_COLORS.cav), human: new THREE.Color(VEHICLE_COLORS.human) }), []);
+  const end = traceEnd(trace);
+
+  useFrame((_, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    if (clock.playing) {
+      clock.time = Math.min(clock.time + delta * clock.speed, end);
+      if (clock.time >= end) clock.playing = false;
+    }
+
+    let n = 0;
+    sampleTrace(trace, clock.time, (vehicle, x, y, angle) => {
+      const [sx, sz] = project([x, y]);
+      // SUMO angles are clockwise from north, and north is -z in the scene
+      const heading = (angle * Math.PI) / 180;
+      dummy.position.set(sx, 0.15, sz);
+      dummy.lookAt(sx + Math.sin(heading), 0.15, sz - Math.cos(heading));
+      dummy.scale.set(length * 0.4, length * 0.4, length);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(n, dummy.matrix);
+      mesh.setColorAt(n, colors[trace.vehicles[vehicle].kind]);
+      n++;
+    });
+    mesh.count = n;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh key={trace.maxActive} ref={meshRef} args={[undefined, undefined, trace.maxActive]} frustumCulled={false}>
+        <boxGeometry args={[1, 1, 1]} />
+        <meshStandardMaterial />
+    </instancedMesh>
+  );
+};
+
+interface SimulationSceneProps extends SceneProps {
+  replay?: FcdTrace; // Recorded vehicles to show instead of random traffic
+  clock?: ReplayClock; // Required with `replay`
+}
+
+export const SimulationScene: React.FC<SimulationSceneProps> = ({ seed = DEFAULT_SEED, network, replay, clock }) => {
+  const { nodes, connections, adjacency, roadWidth } = useCityData(60, 30, seed, network);
   const dummyRef = useRef(null);
+  const replaying = replay !== undefined && clock !== undefined;
 
   return (
-    <div className="absolute inset-0 z-0 opacity-100 pointer-events-none">
+    // A replay can be zoomed and panned; the ambient version is only a backdrop
+    <div className={`absolute inset-0 z-0 opacity-100 ${replaying ? '' : 'pointer-events-none'}`}>
       <Canvas shadows dpr={[1, 2]}>
-        <PerspectiveCamera makeDefault position={[0, 50, 0]} fov={40} />
+        {/* Higher up while replaying, so the whole network fits a wide frame */}
+        <PerspectiveCamera makeDefault position={[0, replaying ? 85 : 50, 0]} fov={40} />
         
         <ambientLight intensity={0.5} />
         <pointLight position={[10, 10, 10]} intensity={1} />
         
         <Suspense fallback={null}>
             <group position={[0, 0, 0]}>
-                 {/* Darker roads for dark background */}
-                 <RoadNetwork connections={connections} />
-                 <Traffic nodes={nodes} adjacency={adjacency} brainRef={dummyRef} />
+                 {/* Darker roads for dark background. A replay without its network has no roads to match. */}
+                 {(!replaying || network) && <RoadNetwork connections={connections} width={roadWidth} />}
+                 {replaying
+                   ? <Replay trace={replay} bounds={network?.bounds ?? replay.bounds} range={30} clock={clock} />
+                   : <Traffic nodes={nodes} adjacency={adjacency} brainRef={dummyRef} seed={seed} />}
             </group>
         </Suspense>
 
         <OrbitControls 
-            enableZoom={false} 
-            enablePan={false} 
-            autoRotate 
+            enableZoom={replaying} 
+            enablePan={replaying} 
+            autoRotate={!replaying} 
             autoRotateSpeed={0.8}
             maxPolarAngle={0} 
             minPolarAngle={0} 
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { ChevronDown, History } from 'lucide-react';
+import { LATEST_RELEASE, RELEASES, Release } from '../data/releases';
+
+interface ReleaseBarProps {
+    release: Release;
+    onChange: (id: string) => void;
+}
+
+export const ReleaseBar: React.FC<ReleaseBarProps> = ({ release, onChange }) => {
+    const [showNotes, setShowNotes] = useState(false);
+
+    return (
+        <div className="flex flex-col gap-2 text-xs text-slate-500">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                <label className="flex items-center gap-2">
+                    <History size={14} />
+                    <span className="font-bold uppercase tracking-wider text-[10px]">Release</span>
+                    <select
+                        value={release.id}
+                        onChange={e => onChange(e.target.value)}
+                        className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-medium text-slate-900"
+                    >
+                        {RELEASES.map(r => (
+                            <option key={r.id} value={r.id}>{r.label} ({r.date}){r === LATEST_RELEASE ? ' · latest' : ''}</option>
+                        ))}
+                    </select>
+                </label>
+                <span>Data from {release.results.source}</span>
+                <button
+                    onClick={() => setShowNotes(!showNotes)}
+                    aria-expanded={showNotes}
+                    className="flex items-center gap-1 font-bold text-slate-600 hover:text-slate-900"
+                >
+                    Changelog <ChevronDown size={12} className={`transition-transform ${showNotes ? 'rotate-180' : ''}`} />
+                </button>
+            </div>
+            {showNotes && (
+                <ul className="pl-6 list-disc space-y-1 text-slate-600">
+                    {release.notes.map((note, i) => <li key={i}>{note.text}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { GitCompare } from 'lucide-react';
+import { formatMetricValue, getMetric } from '../data/metrics';
+import { getNetwork } from '../data/networks';
+import { RELEASES, Release, getPreviousRelease, getRelease } from '../data/releases';
+import { resolveAlgorithm } from '../data/results';
+import { ChangeKind, diffReleases } from '../lib/diffReleases';
+
+const KIND_STYLES: Record<ChangeKind, string> = {
+    added: 'bg-emerald-50 text-emerald-700',
+    removed: 'bg-red-50 text-red-700',
+    changed: 'bg-amber-50 text-amber-700',
+};
+
+interface ReleaseDiffProps {
+    release: Release; // The newer side
+}
+
+export const ReleaseDiff: React.FC<ReleaseDiffProps> = ({ release }) => {
+    const older = RELEASES.filter(r => RELEASES.indexOf(r) > RELEASES.indexOf(release));
+    const [baseId, setBaseId] = useState<string | undefined>(undefined);
+    const base = (baseId && older.some(r => r.id === baseId) ? getRelease(baseId) : undefined) ?? getPreviousRelease(release.id);
+
+    if (!base) {
+        return (
+            <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col items-center justify-center gap-2 text-center min-h-[12rem]">
+                <GitCompare size={24} className="text-slate-300" />
+                <p className="text-sm font-medium text-slate-600">{release.label} is the first release, so there is nothing to compare it with.</p>
+                <p className="text-xs text-slate-400">Changes will show up here once a newer release is published.</p>
+            </div>
+        );
+    }
+
+    const changes = diffReleases(base, release);
+    const general = release.notes.filter(n => n.network === undefined && n.algorithm === undefined && n.metric === undefined);
+    const count = (kind: ChangeKind) => changes.filter(c => c.kind === kind).length;
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col gap-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <label className="flex items-center gap-2 text-xs text-slate-500">
+                    Changes in <strong className="text-slate-900">{release.label}</strong> since
+                    <select value={base.id} onChange={e => setBaseId(e.target.value)} className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-medium text-slate-900">
+                        {older.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                    </select>
+                </label>
+                <div className="flex gap-2 text-[10px] font-bold uppercase tracking-wider">
+                    {(Object.keys(KIND_STYLES) as ChangeKind[]).map(kind => (
+                        <span key={kind} className={`px-2 py-1 rounded ${KIND_STYLES[kind]}`}>{count(kind)} {kind}</span>
+                    ))}
+                </div>
+            </div>
+
+            {general.length > 0 && (
+                <ul className="pl-5 list-disc space-y-1 text-xs text-slate-600">
+                    {general.map((note, i) => <li key={i}>{note.text}</li>)}
+                </ul>
+            )}
+
+            {changes.length === 0 ? (
+                <p className="text-sm text-slate-500 text-center py-6">No published numbers changed between {base.label} and {release.label}.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-[10px] text-slate-400 uppercase tracking-wider text-left">
+                                <th className="font-semibold py-2 pr-4">Network</th>
+                                <th className="font-semibold py-2 pr-4">Algorithm</th>
+                                <th className="font-semibold py-2 pr-4">Metric</th>
+                                <th className="font-semibold py-2 pr-4 text-right">{base.label}</th>
+                                <th className="font-semibold py-2 pr-4 text-right">{release.label}</th>
+                                <th className="font-semibold py-2 pr-4 text-right">Δ</th>
+                                <th className="font-semibold py-2">Why</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {changes.map(c => {
+                                const metric = getMetric(c.metric)!;
+                                const fmt = (v?: number) => v === undefined ? '—' : formatMetricValue(v, metric);
+                                const delta = c.kind === 'changed' ? c.after! - c.before! : undefined;
+                                return (
+                                    <tr key={`${c.network}/${c.algorithm}/${c.metric}`} className="border-t border-slate-100 align-top">
+                                        <td className="py-2 pr-4 text-slate-900 whitespace-nowrap">{getNetwork(c.network)?.name ?? c.network}</td>
+                                        <td className="py-2 pr-4 text-slate-900 whitespace-nowrap">{resolveAlgorithm(release.results, c.algorithm)?.label ?? resolveAlgorithm(base.results, c.algorithm)?.label ?? c.algorithm}</td>
+                                        <td className="py-2 pr-4 font-mono text-xs text-slate-600 whitespace-nowrap">{metric.symbol}</td>
+                                        <td className="py-2 pr-4 font-mono text-xs text-right text-slate-500">{fmt(c.before)}</td>
+                                        <td className="py-2 pr-4 font-mono text-xs text-right text-slate-900">{fmt(c.after)}</td>
+                                        <td className="py-2 pr-4 font-mono text-xs text-right whitespace-nowrap">
+                                            {delta !== undefined
+                                                ? `${delta > 0 ? '+' : ''}${delta.toFixed(metric.decimals)}${c.before ? ` (${delta > 0 ? '+' : ''}${((delta / Math.abs(c.before)) * 100).toFixed(1)}%)` : ''}`
+                                                : <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${KIND_STYLES[c.kind]}`}>{c.kind}</span>}
+                                        </td>
+                                        <td className="py-2 text-xs text-slate-600">{c.notes.length > 0 ? c.notes.map(n => n.text).join(' ') : <span className="text-slate-300">—</span>}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { MetricInfo, formatMetricValue } from '../data/metrics';
+import { getNetwork } from '../data/networks';
+import { ResultEntry, ResultsFile, getMetricSummary, resolveAlgorithm } from '../data/results';
+import { Axis, AxisMode, DistributionMode, barScale, percentOf } from '../lib/barAxis';
+import { describeBars } from '../lib/describeResults';
+import { isRunAlgorithm } from '../lib/runUpload';
+import { Summary } from '../lib/stats';
+import { ChartFigure, DataColumn, DataTable } from './DataTable';
+
+export const AXIS_MODES: Record<AxisMode, string> = {
+    absolute: 'From zero',
+    zoomed: 'Zoomed',
+    delta: '% vs baseline',
+};
+
+interface ResultBarProps {
+    label: string;
+    summary: Summary; // In the metric's unit, for labels and tooltips
+    seeds: number[];
+    color: string;
+    metric: MetricInfo;
+    axis: Axis;
+    toAxis: (v: number) => number; // Metric value to axis value
+    delta?: number; // Percent change vs the baseline, in delta mode
+    mode: DistributionMode;
+    reference?: number; // Human reference in the metric's unit, drawn as a dashed line
+}
+
+const ResultBar: React.FC<ResultBarProps> = ({ label, summary, seeds, color, metric, axis, toAxis, delta, mode, reference }) => {
+    const [hovered, setHovered] = useState(false);
+    // Position of a value along the track, in percent
+    const at = (v: number) => percentOf(axis, toAxis(v));
+    const pos = (v: number) => `${at(v)}%`;
+    const span = (a: number, b: number) => `${Math.abs(at(b) - at(a))}%`;
+    const fmt = (v: number) => formatMetricValue(v, metric);
+    const origin = percentOf(axis, axis.origin);
+    const end = at(summary.mean);
+
+    return (
+        <div
+            className="flex flex-col gap-1 w-full relative outline-none"
+            tabIndex={0}
+            aria-label={`${label}: ${fmt(summary.mean)}${summary.ci95 ? `, 95% CI ${fmt(summary.ci95[0])} to ${fmt(summary.ci95[1])}` : ''}${delta !== undefined ? `, ${delta > 0 ? '+' : ''}${delta.toFixed(1)}% vs baseline` : ''}`}
+            onMouseEnter={() => setHovered(true)}
+            onMouseLeave={() => setHovered(false)}
+            onFocus={() => setHovered(true)}
+            onBlur={() => setHovered(false)}
+        >
+            <div className="flex justify-between text-xs font-semibold text-slate-600" aria-hidden="true">
+                <span>{label}</span>
+                <span className="font-mono">
+                    {fmt(summary.mean)}
+                    {summary.ci95 && <span className="text-slate-400 font-normal"> ± {formatMetricValue(summary.ci95[1] - summary.mean, metric)}</span>}
+                    {delta !== undefined && <span className="text-slate-400 font-normal"> ({delta > 0 ? '+' : ''}{delta.toFixed(1)}%)</span>}
+                </span>
+            </div>
+            <div className="w-full h-8 bg-slate-100 rounded-md overflow-hidden relative border border-slate-200" aria-hidden="true">
+                {/* Gridlines at the axis ticks */}
+                {axis.ticks.map(t => (
+                    <div key={t} className="absolute inset-y-0 w-px bg-white" style={{ left: `${percentOf(axis, t)}%` }}></div>
+                ))}
+
+                <motion.div
+                    className={`absolute inset-y-0 ${color} ${mode === 'box' ? 'opacity-25' : ''}`}
+                    initial={{ left: `${origin}%`, width: 0 }}
+                    animate={{ left: `${Math.min(origin, end)}%`, width: `${Math.abs(end - origin)}%` }}
+                    transition={{ type: "spring", stiffness: 50 }}
+                />
+
+                {/* Human reference, e.g. travel time before CAVs */}
+                {reference !== undefined && (
+                    <div className="absolute inset-y-0 -ml-px border-l-2 border-dashed border-slate-700/70" style={{ left: pos(reference) }}></div>
+                )}
+
+                {/* Zero line when bars diverge */}
+                {axis.origin === 0 && axis.min < 0 && (
+                    <div className="absolute inset-y-0 w-0.5 -ml-px bg-slate-500" style={{ left: `${origin}%` }}></div>
+                )}
+
+                {/* 95% CI error bar */}
+                {mode === 'ci' && summary.ci95 && (
+                    <div className="absolute top-1/2 h-3 -translate-y-1/2 border-x-2 border-slate-900/70" style={{ left: `${Math.min(at(summary.ci95[0]), at(summary.ci95[1]))}%`, width: span(summary.ci95[0], summary.ci95[1]) }}>
+                        <div className="absolute top-1/2 left-0 right-0 h-0.5 -translate-y-1/2 bg-slate-900/70"></div>
+                    </div>
+                )}
+
+                {/* Box plot with per-seed strip */}
+                {mode === 'box' && summary.n > 1 && (
+                    <>
+                        <div className="absolute top-1/2 h-px -translate-y-1/2 bg-slate-500" style={{ left: pos(summary.min), width: span(summary.min, summary.max) }}></div>
+                        <div className="absolute top-1.5 bottom-1.5 bg-white border border-slate-600 rounded-sm" style={{ left: pos(summary.q1), width: span(summary.q1, summary.q3) }}></div>
+                        <div className="absolute top-1 bottom-1 w-0.5 bg-slate-900" style={{ left: pos(summary.median) }}></div>
+                    </>
+                )}
+                {mode === 'box' && seeds.map((v, i) => (
+                    <div key={i} className={`absolute top-1/2 w-1.5 h-1.5 -ml-[3px] rounded-full ${color} ring-1 ring-white`} style={{ left: pos(v), marginTop: `${((i % 3) - 1) * 5 - 3}px` }}></div>
+                ))}
+            </div>
+
+            {hovered && (
+                <div role="tooltip" className="absolute right-0 top-full mt-1 z-20 px-3 py-2 bg-slate-900 text-white text-[11px] font-mono rounded-md shadow-lg whitespace-nowrap pointer-events-none">
+                    {summary.n > 1 ? (
+                        <>
+                            <div>n = {summary.n} · std {summary.std.toFixed(metric.decimals + 1)}</div>
+                            <div>95% CI [{fmt(summary.ci95![0])}, {fmt(summary.ci95![1])}]</div>
+                        </>
+                    ) : (
+                        <div>n = 1 · per-seed values not published</div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+/** Tick labels under the tracks; the ≈ mark flags an axis that does not start at zero. */
+const AxisScale: React.FC<{ axis: Axis }> = ({ axis }) => {
+    const signed = axis.min < 0 && axis.max > 0;
+    return (
+        <div className="mt-1" aria-hidden="true">
+            <div className="relative h-5 border-t border-slate-300 text-[10px] font-mono text-slate-400">
+                {axis.broken && (
+                    <span className="absolute -top-2.5 left-0 -translate-x-1/2 bg-white px-0.5 text-sm leading-none text-slate-500" title={`Axis starts at ${axis.min.toFixed(axis.decimals)}${axis.suffix}, not zero`}>≈</span>
+                )}
+                {axis.ticks.map(t => (
+                    <div key={t} className="absolute top-0 -translate-x-1/2 flex flex-col items-center" style={{ left: `${percentOf(axis, t)}%` }}>
+                        <span className="w-px h-1.5 bg-slate-300"></span>
+                        <span>{signed && t > 0 ? '+' : ''}{t.toFixed(axis.decimals)}{axis.suffix}</span>
+                    </div>
+                ))}
+            </div>
+            <div className="mt-1 text-center text-[10px] text-slate-500">
+                {axis.label}{axis.broken && ` · axis starts at ${axis.min.toFixed(axis.decimals)}${axis.suffix}`}
+            </div>
+        </div>
+    );
+};
+
+interface ResultsBarChartProps {
+    results: ResultsFile;
+    network: string;
+    entries: ResultEntry[]; // Entries of one network that report the metric
+    metric: MetricInfo;
+    mode: DistributionMode;
+    axisMode: AxisMode;
+    baseline: string; // Algorithm the delta mode compares against
+}
+
+export const ResultsBarChart: React.FC<ResultsBarChartProps> = ({ results, network, entries, metric, mode, axisMode, baseline }) => {
+    // Delta mode needs the baseline on this network; fall back to absolute values without it
+    const { mode: effectiveMode, base, baselineLabel, reference, toAxis, axis } = barScale(results, entries, metric, axisMode, baseline);
+
+    const rows = entries.map(entry => {
+        const algorithm = resolveAlgorithm(results, entry.algorithm);
+        return {
+            entry,
+            label: algorithm?.label ?? entry.algorithm,
+            color: algorithm?.color ?? 'bg-slate-300',
+            isBaseline: algorithm?.family === 'baseline',
+            isRun: isRunAlgorithm(entry.algorithm),
+            summary: getMetricSummary(entry, metric.id)!,
+            seeds: entry.metrics[metric.id].seeds ?? [],
+        };
+    });
+
+    const baselines = rows.filter(r => r.isBaseline && !r.isRun);
+    const algorithms = rows.filter(r => !r.isBaseline && !r.isRun);
+    const runs = rows.filter(r => r.isRun);
+
+    const groupLabel = (r: typeof rows[number]) => r.isRun ? 'Your run' : r.isBaseline ? 'Baseline' : 'MARL';
+    const columns: DataColumn<typeof rows[number]>[] = [
+        { id: 'algorithm', header: 'Algorithm', value: r => r.label },
+        { id: 'group', header: 'Group', value: groupLabel },
+        { id: 'mean', header: metric.symbol, unit: metric.unit, numeric: true, value: r => r.summary.mean, format: r => r.summary.mean.toFixed(metric.decimals) },
+        { id: 'ci', header: '± 95% CI', unit: metric.unit, numeric: true, value: r => r.summary.ci95 ? r.summary.ci95[1] - r.summary.mean : undefined, format: r => r.summary.ci95 ? (r.summary.ci95[1] - r.summary.mean).toFixed(metric.decimals) : '—' },
+        { id: 'n', header: 'Seeds', numeric: true, value: r => r.summary.n },
+        ...(base !== undefined && base !== 0 ? [{
+            id: 'delta',
+            header: `vs ${baselineLabel}`,
+            unit: '%',
+            numeric: true,
+            value: (r: typeof rows[number]) => ((r.summary.mean - base) / Math.abs(base)) * 100,
+            format: (r: typeof rows[number]) => { const d = ((r.summary.mean - base) / Math.abs(base)) * 100; return `${d > 0 ? '+' : ''}${d.toFixed(1)}`; },
+        }] : []),
+    ];
+
+    const renderRows = (group: typeof rows) => (
+        <div className="grid grid-cols-1 gap-2">
+            {group.map(r => (
+                <ResultBar
+                    key={r.entry.algorithm}
+                    label={r.label}
+                    summary={r.summary}
+                    seeds={r.seeds}
+                    color={r.color}
+                    metric={metric}
+                    axis={axis}
+                    toAxis={toAxis}
+                    delta={effectiveMode === 'delta' ? toAxis(r.summary.mean) : undefined}
+                    reference={reference?.value}
+                    mode={mode}
+                />
+            ))}
+        </div>
+    );
+
+    return (
+        <ChartFigure
+            summary={describeBars(results, entries, metric, network)}
+            table={<DataTable caption={`${metric.label} (${metric.unit}) on ${getNetwork(network)?.name ?? network}, ${metric.direction} is better. Mean over seeds with 95% confidence interval.`} columns={columns} rows={rows} rowKey={r => r.entry.algorithm} />}
+        >
+            {axisMode === 'delta' && effectiveMode !== 'delta' && (
+                <p className="text-[10px] text-amber-700">{baselineLabel} does not report {metric.symbol} here, so absolute values are shown.</p>
+            )}
+
+            {baselines.length > 0 && (
+                <>
+                    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Baselines</h4>
+                    {renderRows(baselines)}
+                </>
+            )}
+
+            {baselines.length > 0 && algorithms.length > 0 && <div className="w-full h-px bg-slate-100 my-2"></div>}
+
+            {algorithms.length > 0 && (
+                <>
+                    <h4 className="text-xs font-bold text-urb-blue uppercase tracking-wider mb-2">MARL Algorithms</h4>
+                    {renderRows(algorithms)}
+                </>
+            )}
+
+            {runs.length > 0 && (
+                <>
+                    <div className="w-full h-px bg-slate-100 my-2"></div>
+                    <h4 className="text-xs font-bold text-emerald-600 uppercase tracking-wider mb-2">Your Runs</h4>
+                    {renderRows(runs)}
+                </>
+            )}
+
+            {reference && (
+                <p className="flex items-center gap-2 text-[10px] text-slate-500">
+                    <span className="inline-block h-3 border-l-2 border-dashed border-slate-700/70" aria-hidden="true"></span>
+                    {reference.label}: {formatMetricValue(reference.value, metric)}, the reference without CAVs
+                </p>
+            )}
+
+            <AxisScale axis={axis} />
+        </ChartFigure>
+    );
+};
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { MetricInfo, formatMetricValue } from '../data/metrics';
+import { getNetwork } from '../data/networks';
+import { HUMAN_BASELINE, ResultsFile, algorithmOrder, getBaselineGap, getMetricValue, getResultNetworks, resolveAlgorithm } from '../data/results';
+import { describeHeatmap } from '../lib/describeResults';
+import { ChartFigure, DataColumn, DataTable } from './DataTable';
+
+// Gaps beyond this saturate the color scale
+const GAP_SATURATION = 0.2;
+
+/** Blue when better than humans, red when worse, white at parity. */
+const gapColor = (gap: number, metric: MetricInfo) => {
+    const improvement = metric.direction === 'lower' ? -gap : gap;
+    const t = Math.min(Math.abs(improvement) / GAP_SATURATION, 1);
+    const [r, g, b] = improvement >= 0 ? [37, 99, 235] : [220, 38, 38];
+    return `rgba(${r}, ${g}, ${b}, ${0.1 + 0.8 * t})`;
+};
+
+interface ResultsHeatmapProps {
+    results: ResultsFile;
+    metric: MetricInfo;
+    onSelect: (network: string) => void;
+}
+
+export const ResultsHeatmap: React.FC<ResultsHeatmapProps> = ({ results, metric, onSelect }) => {
+    const networkIds = getResultNetworks(results);
+    const algorithmIds = [...new Set(results.entries.map(e => e.algorithm))]
+        .filter(id => id !== HUMAN_BASELINE)
+        .sort((a, b) => algorithmOrder(a) - algorithmOrder(b));
+
+    const hasBaseline = results.entries.some(e => e.algorithm === HUMAN_BASELINE && getMetricValue(e, metric.id) !== undefined);
+    if (!hasBaseline) {
+        return (
+            <div className="bg-white p-6 rounded-xl border border-slate-100 text-center text-sm text-slate-500">
+                The heatmap compares against human drivers, who do not report {metric.label} ({metric.symbol}). Pick a travel time metric instead.
+            </div>
+        );
+    }
+
+    const cells = algorithmIds.flatMap(algorithmId => networkIds.flatMap(networkId => {
+        const entry = results.entries.find(e => e.network === networkId && e.algorithm === algorithmId);
+        const gap = entry && getBaselineGap(results, entry, metric.id);
+        return entry && gap !== undefined ? [{ entry, gap, value: getMetricValue(entry, metric.id)! }] : [];
+    }));
+    const columns: DataColumn<typeof cells[number]>[] = [
+        { id: 'algorithm', header: 'Algorithm', value: c => resolveAlgorithm(results, c.entry.algorithm)?.label ?? c.entry.algorithm },
+        { id: 'network', header: 'Network', value: c => getNetwork(c.entry.network)?.name ?? c.entry.network },
+        { id: 'value', header: metric.symbol, unit: metric.unit, numeric: true, value: c => c.value, format: c => c.value.toFixed(metric.decimals) },
+        { id: 'gap', header: 'Gap to humans', unit: '%', numeric: true, value: c => c.gap * 100, format: c => `${c.gap > 0 ? '+' : ''}${(c.gap * 100).toFixed(1)}` },
+    ];
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col gap-4">
+            <ChartFigure
+                summary={describeHeatmap(results, metric)}
+                table={<DataTable caption={`Relative gap of ${metric.label} (${metric.unit}) to human drivers per algorithm and network; ${metric.direction === 'lower' ? 'negative' : 'positive'} is better.`} columns={columns} rows={cells} rowKey={c => `${c.entry.algorithm}/${c.entry.network}`} />}
+            >
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs border-separate border-spacing-1">
+                        <thead>
+                            <tr>
+                                <th className="text-left font-semibold text-slate-400 uppercase tracking-wider px-2">Algorithm</th>
+                                {networkIds.map(id => (
+                                    <th key={id} className="font-semibold text-slate-600 px-2 whitespace-nowrap">{getNetwork(id)?.name ?? id}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {algorithmIds.map(algorithmId => {
+                                const algorithm = resolveAlgorithm(results, algorithmId);
+                                return (
+                                    <tr key={algorithmId}>
+                                        <th scope="row" className="text-left font-semibold text-slate-900 px-2 whitespace-nowrap">{algorithm?.label ?? algorithmId}</th>
+                                        {networkIds.map(networkId => {
+                                            const entry = results.entries.find(e => e.network === networkId && e.algorithm === algorithmId);
+                                            const gap = entry && getBaselineGap(results, entry, metric.id);
+                                            if (gap === undefined) {
+                                                return <td key={networkId} className="h-12 min-w-[6rem] rounded bg-slate-50 text-center text-slate-300">—</td>;
+                                            }
+                                            const value = getMetricValue(entry!, metric.id)!;
+                                            return (
+                                                <td key={networkId} className="h-12 min-w-[6rem] p-0">
+                                                    <button
+                                                        onClick={() => onSelect(networkId)}
+                                                        title={`${algorithm?.label ?? algorithmId} on ${getNetwork(networkId)?.name ?? networkId}: ${formatMetricValue(value, metric)}`}
+                                                        className="w-full h-12 rounded font-mono font-semibold text-slate-900 hover:ring-2 hover:ring-slate-900 focus:ring-2 focus:ring-slate-900 outline-none transition-shadow"
+                                                        style={{ backgroundColor: gapColor(gap, metric) }}
+                                                    >
+                                                        {gap > 0 ? '+' : ''}{(gap * 100).toFixed(1)}%
+                                                    </button>
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </ChartFigure>
+
+            <div className="flex flex-wrap items-center justify-between gap-4 text-[10px] text-slate-500">
+                <span>Relative gap of {metric.symbol} to human drivers. Click a cell to open that network.</span>
+                <div className="flex items-center gap-2 font-mono">
+                    <span>better</span>
+                    <div className="w-32 h-2 rounded-full" style={{ background: `linear-gradient(to right, ${gapColor(metric.direction === 'lower' ? -GAP_SATURATION : GAP_SATURATION, metric)}, rgba(255,255,255,1), ${gapColor(metric.direction === 'lower' ? GAP_SATURATION : -GAP_SATURATION, metric)})` }}></div>
+                    <span>worse</span>
+                    <span className="text-slate-400">(±{GAP_SATURATION * 100}%)</span>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { MetricInfo } from '../data/metrics';
+import { getNetwork } from '../data/networks';
+import { ResultsFile, resolveAlgorithm } from '../data/results';
+import { Interval, rankAlgorithms } from '../lib/ranking';
+
+const formatInterval = (i: Interval, digits: number) =>
+    `${i.estimate.toFixed(digits)} [${i.ci95[0].toFixed(digits)}, ${i.ci95[1].toFixed(digits)}]`;
+
+/** Blue when the row algorithm tends to beat the column one, red when it tends to lose. */
+const improvementColor = (p: number) => {
+    const t = Math.min(Math.abs(p - 0.5) * 2, 1);
+    const [r, g, b] = p >= 0.5 ? [37, 99, 235] : [220, 38, 38];
+    return `rgba(${r}, ${g}, ${b}, ${0.08 + 0.7 * t})`;
+};
+
+interface ResultsRankingProps {
+    results: ResultsFile;
+    metric: MetricInfo;
+}
+
+export const ResultsRanking: React.FC<ResultsRankingProps> = ({ results, metric }) => {
+    // Bootstrapping takes a moment, so only redo it when the data or metric change
+    const ranking = useMemo(() => rankAlgorithms(results, metric), [results, metric]);
+    const label = (id: string) => resolveAlgorithm(results, id)?.label ?? id;
+
+    if (ranking.networks.length === 0 || ranking.rows.length === 0) {
+        return (
+            <div className="bg-white p-6 rounded-xl border border-slate-100 text-center text-sm text-slate-500">
+                Scores are normalized between random routing and human drivers, and no network reports {metric.label} ({metric.symbol}) for both. Pick a travel time metric instead.
+            </div>
+        );
+    }
+
+    // Shared scale for the score intervals, always showing the random (0) and human (1) anchors
+    const extent = ranking.rows.flatMap(r => r.meanScore.ci95).concat(0, 1);
+    const lo = Math.min(...extent);
+    const hi = Math.max(...extent);
+    const pos = (v: number) => `${((v - lo) / (hi - lo)) * 100}%`;
+    const top = ranking.rows[0];
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col gap-6">
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <caption className="sr-only">
+                        Overall ranking by {metric.label}, scored 0 for random routing and 1 for human drivers.
+                        {' '}{label(top.algorithm)} ranks first with a normalized score of {formatInterval(top.meanScore, 2)}.
+                    </caption>
+                    <thead>
+                        <tr className="text-[10px] text-slate-400 uppercase tracking-wider text-left">
+                            <th className="font-semibold py-2 pr-4">#</th>
+                            <th className="font-semibold py-2 pr-4">Algorithm</th>
+                            <th className="font-semibold py-2 pr-4">Normalized score</th>
+                            <th className="font-semibold py-2 pr-4 w-1/3"><span className="sr-only">Score interval</span></th>
+                            <th className="font-semibold py-2 pr-4">Average rank</th>
+                            <th className="font-semibold py-2">Networks</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {ranking.rows.map((row, i) => {
+                            const algorithm = resolveAlgorithm(results, row.algorithm);
+                            return (
+                                <tr key={row.algorithm} className="border-t border-slate-100">
+                                    <td className="py-3 pr-4 font-mono text-slate-400">{i + 1}</td>
+                                    <td className="py-3 pr-4 font-semibold text-slate-900 whitespace-nowrap">
+                                        <span className={`inline-block w-2.5 h-2.5 rounded-full mr-2 ${algorithm?.color ?? 'bg-slate-300'}`}></span>
+                                        {label(row.algorithm)}
+                                    </td>
+                                    <td className="py-3 pr-4 font-mono text-xs text-slate-700 whitespace-nowrap">{formatInterval(row.meanScore, 2)}</td>
+                                    <td className="py-3 pr-4">
+                                        <div className="relative h-4" title={`95% bootstrap CI ${formatInterval(row.meanScore, 2)}`}>
+                                            <div className="absolute inset-y-0 w-px bg-slate-300" style={{ left: pos(0) }}></div>
+                                            <div className="absolute inset-y-0 w-px bg-slate-500" style={{ left: pos(1) }}></div>
+                                            <div className={`absolute top-1/2 h-1.5 -translate-y-1/2 rounded-full opacity-40 ${algorithm?.color ?? 'bg-slate-300'}`} style={{ left: pos(row.meanScore.ci95[0]), width: `calc(${pos(row.meanScore.ci95[1])} - ${pos(row.meanScore.ci95[0])})` }}></div>
+                                            <div className="absolute top-1/2 w-2 h-2 -ml-1 -translate-y-1/2 rounded-full bg-slate-900" style={{ left: pos(row.meanScore.estimate) }}></div>
+                                        </div>
+                                    </td>
+                                    <td className="py-3 pr-4 font-mono text-xs text-slate-700 whitespace-nowrap">{formatInterval(row.averageRank, 1)}</td>
+                                    <td className="py-3 font-mono text-xs text-slate-500">{row.networks}/{ranking.networks.length}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div>
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Probability of improvement</h4>
+                <div className="overflow-x-auto">
+                    <table className="text-xs border-separate border-spacing-1">
+                        <caption className="sr-only">Probability that the row algorithm scores higher than the column algorithm</caption>
+                        <thead>
+                            <tr>
+                                <th className="text-left font-normal text-slate-400 px-2">row beats column</th>
+                                {ranking.rows.map(r => <th key={r.algorithm} className="font-semibold text-slate-600 px-2 whitespace-nowrap">{label(r.algorithm)}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {ranking.rows.map(x => (
+                                <tr key={x.algorithm}>
+                                    <th scope="row" className="text-left font-semibold text-slate-900 px-2 whitespace-nowrap">{label(x.algorithm)}</th>
+                                    {ranking.rows.map(y => {
+                                        const p = ranking.improvement[x.algorithm][y.algorithm];
+                                        if (!p) return <td key={y.algorithm} className="h-9 min-w-[4.5rem] rounded bg-slate-50 text-center text-slate-300">—</td>;
+                                        return (
+                                            <td
+                                                key={y.algorithm}
+                                                title={`P(${label(x.algorithm)} > ${label(y.algorithm)}) = ${formatInterval(p, 2)}`}
+                                                className="h-9 min-w-[4.5rem] rounded text-center font-mono font-semibold text-slate-900"
+                                                style={{ backgroundColor: improvementColor(p.estimate) }}
+                                            >
+                                                {p.estimate.toFixed(2)}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <p className="text-[10px] text-slate-500 leading-relaxed">
+                On each network {metric.symbol} is rescaled so that random routing scores 0 and human drivers score 1; above 1 beats humans.
+                Ranks are taken per network, 1 being best. Probability of improvement is the chance that a run of the row algorithm scores higher than a run of the column algorithm, averaged over shared networks.
+                Brackets are 95% stratified bootstrap CIs over networks and seeds.
+                Computed on {ranking.networks.map(id => getNetwork(id)?.name ?? id).join(', ')}.
+            </p>
+        </div>
+    );
+};
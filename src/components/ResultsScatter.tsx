@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { MetricInfo, formatMetricValue } from '../data/metrics';
+import { NetworkInfo, getNetwork } from '../data/networks';
+import { HUMAN_BASELINE, ResultsFile, algorithmOrder, getBaselineGap, getMetricValue, getResultNetworks, resolveAlgorithm } from '../data/results';
+import { describeScatter } from '../lib/describeResults';
+import { linearFit } from '../lib/stats';
+import { ChartFigure, DataColumn, DataTable } from './DataTable';
+
+type ScaleKey = 'trips' | 'agents' | 'edges';
+
+const SCALE_LABELS: Record<ScaleKey, string> = {
+    trips: 'Trips',
+    agents: 'Agents',
+    edges: 'Edges',
+};
+
+const WIDTH = 720;
+const HEIGHT = 360;
+const MARGIN = { left: 56, right: 24, top: 16, bottom: 40 };
+
+interface Point {
+    network: NetworkInfo;
+    algorithm: string;
+    x: number;
+    gap: number;
+    value: number;
+}
+
+interface ResultsScatterProps {
+    results: ResultsFile;
+    metric: MetricInfo;
+    onSelect: (network: string) => void;
+}
+
+export const ResultsScatter: React.FC<ResultsScatterProps> = ({ results, metric, onSelect }) => {
+    const networks = getResultNetworks(results).map(getNetwork).filter((n): n is NetworkInfo => n !== undefined);
+    // Only offer size measures that at least two result networks publish
+    const scales = (Object.keys(SCALE_LABELS) as ScaleKey[]).filter(k => networks.filter(n => n[k] !== null).length >= 2);
+    const [selectedScale, setScale] = useState<ScaleKey>('trips');
+    const [hovered, setHovered] = useState<Point | null>(null);
+    const scale = scales.includes(selectedScale) ? selectedScale : scales[0];
+
+    const points: Point[] = !scale ? [] : results.entries.flatMap(entry => {
+        const network = getNetwork(entry.network);
+        const x = network?.[scale];
+        const gap = getBaselineGap(results, entry, metric.id);
+        if (entry.algorithm === HUMAN_BASELINE || !network || x === null || x === undefined || gap === undefined) return [];
+        return [{ network, algorithm: entry.algorithm, x, gap, value: getMetricValue(entry, metric.id)! }];
+    });
+
+    const hasBaseline = results.entries.some(e => e.algorithm === HUMAN_BASELINE && getMetricValue(e, metric.id) !== undefined);
+    if (!scale || !hasBaseline || points.length === 0) {
+        return (
+            <div className="bg-white p-6 rounded-xl border border-slate-100 text-center text-sm text-slate-500">
+                {!scale
+                    ? 'Fewer than two networks with results publish their size yet.'
+                    : !hasBaseline
+                        ? `The scatter shows the gap to human drivers, who do not report ${metric.label} (${metric.symbol}). Pick a travel time metric instead.`
+                        : `Only human drivers report ${metric.label} (${metric.symbol}) on networks with a published size, so there is no gap to plot.`}
+            </div>
+        );
+    }
+
+    const algorithms = [...new Set(results.entries.map(e => e.algorithm))]
+        .filter(id => id !== HUMAN_BASELINE)
+        .sort((a, b) => algorithmOrder(a) - algorithmOrder(b));
+
+    const xs = points.map(p => p.x);
+    const xPad = (Math.max(...xs) - Math.min(...xs)) * 0.05 || 1;
+    const xMin = Math.max(0, Math.min(...xs) - xPad);
+    const xMax = Math.max(...xs) + xPad;
+    const gaps = points.map(p => p.gap).concat(0);
+    const yPad = (Math.max(...gaps) - Math.min(...gaps)) * 0.1 || 0.01;
+    const yMin = Math.min(...gaps) - yPad;
+    const yMax = Math.max(...gaps) + yPad;
+    const x = (v: number) => MARGIN.left + ((v - xMin) / (xMax - xMin)) * (WIDTH - MARGIN.left - MARGIN.right);
+    const y = (v: number) => MARGIN.top + (1 - (v - yMin) / (yMax - yMin)) * (HEIGHT - MARGIN.top - MARGIN.bottom);
+    const yTicks = Array.from({ length: 5 }, (_, i) => yMin + ((yMax - yMin) * i) / 4);
+    const label = (id: string) => resolveAlgorithm(results, id)?.label ?? id;
+    const hex = (id: string) => resolveAlgorithm(results, id)?.hex ?? '#cbd5e1';
+
+    const columns: DataColumn<Point>[] = [
+        { id: 'algorithm', header: 'Algorithm', value: p => label(p.algorithm) },
+        { id: 'network', header: 'Network', value: p => p.network.name },
+        { id: 'size', header: SCALE_LABELS[scale], value: p => p.x, format: p => p.x.toLocaleString(), numeric: true },
+        { id: 'value', header: metric.symbol, unit: metric.unit, value: p => p.value, format: p => formatMetricValue(p.value, metric), numeric: true },
+        { id: 'gap', header: 'Gap to humans', unit: '%', value: p => p.gap, format: p => `${p.gap > 0 ? '+' : ''}${(p.gap * 100).toFixed(1)}`, numeric: true },
+    ];
+
+    const optionStyle = (active: boolean) =>
+        `px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${active ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`;
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-slate-100 flex flex-col gap-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600">
+                    {algorithms.map(id => (
+                        <span key={id} className="flex items-center gap-1.5">
+                            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: hex(id) }}></span>
+                            {label(id)}
+                        </span>
+                    ))}
+                </div>
+                <div className="inline-flex items-center gap-1" role="radiogroup" aria-label="Network size">
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mr-1">Size</span>
+                    {(Object.keys(SCALE_LABELS) as ScaleKey[]).map(k => (
+                        <button
+                            key={k}
+                            role="radio"
+                            aria-checked={scale === k}
+                            disabled={!scales.includes(k)}
+                            title={scales.includes(k) ? undefined : `${SCALE_LABELS[k]} not published for enough networks`}
+                            onClick={() => setScale(k)}
+                            className={`${optionStyle(scale === k)} disabled:opacity-30 disabled:pointer-events-none`}
+                        >
+                            {SCALE_LABELS[k]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <ChartFigure
+                summary={describeScatter(results, metric, points, SCALE_LABELS[scale].toLowerCase())}
+                table={<DataTable caption={`Gap of ${metric.label} to human drivers per algorithm and network, with network ${SCALE_LABELS[scale].toLowerCase()}.`} columns={columns} rows={points} rowKey={p => `${p.algorithm}/${p.network.id}`} />}
+            >
+                <div className="relative">
+                    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`Gap of ${metric.symbol} to human drivers against network ${SCALE_LABELS[scale].toLowerCase()}`}>
+                        {yTicks.map(t => (
+                            <g key={t}>
+                                <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(t)} y2={y(t)} stroke="#f1f5f9" />
+                                <text x={MARGIN.left - 6} y={y(t) + 3} textAnchor="end" fontSize="10" fill="#94a3b8" fontFamily="JetBrains Mono, monospace">{t > 0 ? '+' : ''}{(t * 100).toFixed(0)}%</text>
+                            </g>
+                        ))}
+                        <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(0)} y2={y(0)} stroke="#64748b" strokeDasharray="6 4" />
+                        <text x={WIDTH - MARGIN.right} y={y(0) - 4} textAnchor="end" fontSize="10" fill="#64748b">Human drivers</text>
+
+                        {networks.filter(n => n[scale] !== null).map(n => (
+                            <text key={n.id} x={x(n[scale]!)} y={HEIGHT - MARGIN.bottom + 14} textAnchor="middle" fontSize="10" fill="#94a3b8">
+                                {n.name} <tspan fontFamily="JetBrains Mono, monospace">({n[scale]!.toLocaleString()})</tspan>
+                            </text>
+                        ))}
+                        <text x={(MARGIN.left + WIDTH - MARGIN.right) / 2} y={HEIGHT - 4} textAnchor="middle" fontSize="10" fill="#64748b">{SCALE_LABELS[scale]} per network</text>
+                        <text x={12} y={MARGIN.top + (HEIGHT - MARGIN.top - MARGIN.bottom) / 2} textAnchor="middle" fontSize="10" fill="#64748b" transform={`rotate(-90 12 ${MARGIN.top + (HEIGHT - MARGIN.top - MARGIN.bottom) / 2})`}>
+                            Gap to humans ({metric.direction === 'lower' ? 'below 0 is better' : 'above 0 is better'})
+                        </text>
+
+                        {algorithms.map(id => {
+                            const own = points.filter(p => p.algorithm === id);
+                            const fit = linearFit(own.map(p => p.x), own.map(p => p.gap));
+                            if (!fit) return null;
+                            const x0 = Math.min(...own.map(p => p.x));
+                            const x1 = Math.max(...own.map(p => p.x));
+                            return (
+                                <line
+                                    key={id}
+                                    x1={x(x0)} y1={y(fit.intercept + fit.slope * x0)}
+                                    x2={x(x1)} y2={y(fit.intercept + fit.slope * x1)}
+                                    stroke={hex(id)} strokeWidth={hovered && hovered.algorithm !== id ? 1 : 2} strokeOpacity={hovered && hovered.algorithm !== id ? 0.25 : 0.7}
+                                />
+                            );
+                        })}
+
+                        {points.map(p => (
+                            <circle
+                                key={`${p.algorithm}/${p.network.id}`}
+                                cx={x(p.x)}
+                                cy={y(p.gap)}
+                                r={hovered === p ? 7 : 5}
+                                fill={hex(p.algorithm)}
+                                stroke="white"
+                                strokeWidth={1.5}
+                                opacity={hovered && hovered.algorithm !== p.algorithm ? 0.3 : 1}
+                                tabIndex={0}
+                                role="button"
+                                aria-label={`${label(p.algorithm)} on ${p.network.name}: ${(p.gap * 100).toFixed(1)}% gap to humans`}
+                                className="cursor-pointer outline-none"
+                                onMouseEnter={() => setHovered(p)}
+                                onMouseLeave={() => setHovered(null)}
+                                onFocus={() => setHovered(p)}
+                                onBlur={() => setHovered(null)}
+                                onClick={() => onSelect(p.network.id)}
+                                onKeyDown={e => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onSelect(p.network.id); } }}
+                            />
+                        ))}
+                    </svg>
+
+                    {hovered && (
+                        <div
+                            role="tooltip"
+                            className="absolute z-20 px-3 py-2 bg-slate-900 text-white text-[11px] font-mono rounded-md shadow-lg whitespace-nowrap pointer-events-none -translate-x-1/2 -translate-y-full"
+                            style={{ left: `${(x(hovered.x) / WIDTH) * 100}%`, top: `calc(${(y(hovered.gap) / HEIGHT) * 100}% - 10px)` }}
+                        >
+                            <div className="font-sans font-bold">{label(hovered.algorithm)} · {hovered.network.name}</div>
+                            <div>{SCALE_LABELS[scale]}: {hovered.x.toLocaleString()}</div>
+                            <div>{metric.symbol}: {formatMetricValue(hovered.value, metric)} ({hovered.gap > 0 ? '+' : ''}{(hovered.gap * 100).toFixed(1)}% vs humans)</div>
+                        </div>
+                    )}
+                </div>
+            </ChartFigure>
+
+            <p className="text-[10px] text-slate-500">
+                Each dot is one algorithm on one network; lines are least-squares trends per algorithm. Click a dot to open that network.
+                Networks without a published {SCALE_LABELS[scale].toLowerCase()} count are left out.
+            </p>
+        </div>
+    );
+};
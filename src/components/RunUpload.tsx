@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { getNetwork } from '../data/networks';
+import { ResultsFile } from '../data/results';
+import { parseRunFile } from '../lib/runUpload';
+import { ValidationError } from '../lib/validateResults';
+
+export interface LoadedRun {
+    name: string; // File name
+    results: ResultsFile;
+}
+
+interface RunUploadProps {
+    run: LoadedRun | null;
+    onLoad: (run: LoadedRun) => void;
+    onClear: () => void;
+}
+
+// Long error lists are cut; the validator CLI prints them all
+const MAX_ERRORS = 5;
+
+export const RunUpload: React.FC<RunUploadProps> = ({ run, onLoad, onClear }) => {
+    const [dragging, setDragging] = useState(false);
+    const [failed, setFailed] = useState<{ name: string, errors: ValidationError[] } | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const readFile = async (file: File) => {
+        let text: string;
+        try {
+            text = await file.text();
+        } catch (err) {
+            setFailed({ name: file.name, errors: [{ path: '(root)', message: `could not be read: ${err instanceof Error ? err.message : String(err)}` }] });
+            return;
+        }
+        const result = parseRunFile(file.name, text);
+        if (result.valid) {
+            setFailed(null);
+            onLoad({ name: file.name, results: result.results! });
+        } else {
+            setFailed({ name: file.name, errors: result.errors });
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) readFile(file);
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) readFile(file);
+        e.target.value = '';
+    };
+
+    const runNetworks = run ? [...new Set(run.results.entries.map(e => e.network))] : [];
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div
+                onDragOver={e => { e.preventDefault(); setDragging(true); }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={handleDrop}
+                className={`flex flex-wrap items-center justify-between gap-3 px-4 py-3 rounded-xl border border-dashed text-xs transition-colors ${dragging ? 'border-urb-blue bg-blue-50' : run ? 'border-emerald-300 bg-emerald-50/50' : 'border-slate-300 bg-white'}`}
+            >
+                {run ? (
+                    <span className="text-slate-600">
+                        Comparing <strong className="font-mono text-slate-900">{run.name}</strong>: {run.results.entries.length} {run.results.entries.length === 1 ? 'entry' : 'entries'} on {runNetworks.map(id => getNetwork(id)?.name ?? id).join(', ')}.
+                    </span>
+                ) : (
+                    <span className="text-slate-500">
+                        <strong className="text-slate-700">Compare your run:</strong> drop a results JSON or CSV here. Files are read in your browser and never uploaded.
+                    </span>
+                )}
+                <div className="flex items-center gap-2">
+                    <input ref={inputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleChange} className="hidden" />
+                    <button
+                        onClick={() => inputRef.current?.click()}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-bold uppercase tracking-wider text-slate-600 hover:bg-slate-100 transition-colors"
+                    >
+                        <FileUp size={14} /> {run ? 'Replace' : 'Browse'}
+                    </button>
+                    {run && (
+                        <button onClick={onClear} aria-label="Remove your run" className="p-1.5 rounded-lg text-slate-400 hover:text-slate-900 hover:bg-slate-100 transition-colors">
+                            <X size={14} />
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {failed && (
+                <div role="alert" className="px-4 py-3 rounded-xl bg-red-50 border border-red-100 text-xs text-red-700">
+                    <p className="font-semibold mb-1">{failed.name} could not be loaded:</p>
+                    <ul className="font-mono space-y-0.5">
+                        {failed.errors.slice(0, MAX_ERRORS).map((e, i) => <li key={i}>{e.path}: {e.message}</li>)}
+                    </ul>
+                    {failed.errors.length > MAX_ERRORS && <p className="mt-1">…and {failed.errors.length - MAX_ERRORS} more.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
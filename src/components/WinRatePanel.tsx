@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Activity } from 'lucide-react';
+import { formatMetricValue, getMetric } from '../data/metrics';
+import { HUMAN_BASELINE, ResultEntry, ResultsFile, getMetricValue, resolveAlgorithm } from '../data/results';
+import { WIN_BASELINES, WIN_DEFINITIONS, WIN_METRIC, WIN_THRESHOLDS, WinDefinition, WinRate, computeWinRate } from '../lib/winRate';
+
+/** Without per-seed values, the win rates reported with the results are shown as they are. */
+const ReportedWinRates: React.FC<{ results: ResultsFile, entries: ResultEntry[] }> = ({ results, entries }) => {
+    const rows = entries
+        .filter(e => resolveAlgorithm(results, e.algorithm)?.family !== 'baseline')
+        .map(entry => ({ entry, rate: getMetricValue(entry, 'win_rate') }))
+        .filter((r): r is { entry: ResultEntry, rate: number } => r.rate !== undefined);
+    if (rows.length === 0) return null;
+
+    const best = [...rows].sort((a, b) => b.rate - a.rate)[0];
+    const label = (entry: ResultEntry) => resolveAlgorithm(results, entry.algorithm)?.label ?? entry.algorithm;
+    const humans = resolveAlgorithm(results, HUMAN_BASELINE)?.label ?? HUMAN_BASELINE;
+
+    return (
+        <div className="mt-4 p-4 bg-slate-50 rounded-lg flex flex-col gap-3 text-xs text-slate-500">
+            <div className="flex items-center gap-3">
+                <Activity size={16} className="shrink-0" />
+                <span>
+                    {best.rate > 0
+                        ? <>In this scenario, RL agents won <strong className="text-slate-900">{best.rate.toFixed(0)}%</strong> of runs against {humans} ({label(best.entry)}, as reported).</>
+                        : <>In this scenario, no RL algorithm reports a run that beat {humans}.</>}
+                </span>
+            </div>
+            <ul className="flex flex-col gap-1.5">
+                {rows.map(({ entry, rate }) => (
+                    <li key={entry.algorithm} className="flex items-center gap-3">
+                        <span className="w-28 font-semibold text-slate-700 truncate">{label(entry)}</span>
+                        <span className="font-mono text-slate-900">{rate.toFixed(0)}%</span>
+                    </li>
+                ))}
+            </ul>
+            <p className="text-[10px] text-slate-400">
+                Win rates against {humans} as reported with the results. Per-seed values are not published here, so they cannot be recomputed for other baselines or margins.
+            </p>
+        </div>
+    );
+};
+
+interface WinRatePanelProps {
+    results: ResultsFile;
+    entries: ResultEntry[]; // All entries of one network
+}
+
+export const WinRatePanel: React.FC<WinRatePanelProps> = ({ results, entries }) => {
+    const [selectedBaseline, setBaseline] = useState(HUMAN_BASELINE);
+    const [definition, setDefinition] = useState<WinDefinition>('mean');
+    const [threshold, setThreshold] = useState(0);
+
+    const metric = getMetric(WIN_METRIC)!;
+    const baselines = WIN_BASELINES.filter(id => entries.some(e => e.algorithm === id && getMetricValue(e, metric.id) !== undefined));
+    // Fall back to a baseline this network reports
+    const baseline = baselines.includes(selectedBaseline) ? selectedBaseline : baselines[0];
+    const baselineLabel = resolveAlgorithm(results, baseline)?.label ?? baseline;
+
+    const rows = entries
+        .filter(e => resolveAlgorithm(results, e.algorithm)?.family !== 'baseline')
+        .map(entry => ({ entry, win: computeWinRate(results, entry, metric, { baseline, definition, threshold }) }))
+        .filter((r): r is { entry: ResultEntry, win: WinRate } => r.win !== undefined);
+    if (baselines.length === 0 || rows.length === 0) return <ReportedWinRates results={results} entries={entries} />;
+
+    const best = [...rows].sort((a, b) => b.win.rate - a.win.rate)[0];
+    const unpaired = definition === 'paired' && rows.some(r => !r.win.paired);
+    const label = (entry: ResultEntry) => resolveAlgorithm(results, entry.algorithm)?.label ?? entry.algorithm;
+    const margin = threshold > 0 ? `more than ${threshold * 100}%` : 'strictly';
+
+    const optionStyle = (active: boolean) =>
+        `px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${active ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`;
+
+    return (
+        <div className="mt-4 p-4 bg-slate-50 rounded-lg flex flex-col gap-3 text-xs text-slate-500">
+            <div className="flex items-center gap-3">
+                <Activity size={16} className="shrink-0" />
+                <span>
+                    {best.win.wins > 0
+                        ? <>In this scenario, RL agents won <strong className="text-slate-900">{best.win.rate.toFixed(0)}%</strong> of runs against {baselineLabel} ({label(best.entry)}, {best.win.wins}/{best.win.runs}).</>
+                        : <>In this scenario, no RL run beat {baselineLabel} ({metric.symbol} {margin} better).</>}
+                </span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                <div className="inline-flex items-center gap-1" role="radiogroup" aria-label="Win rate baseline">
+                    {baselines.map(id => (
+                        <button key={id} role="radio" aria-checked={baseline === id} onClick={() => setBaseline(id)} className={optionStyle(baseline === id)}>
+                            {resolveAlgorithm(results, id)?.label ?? id}
+                        </button>
+                    ))}
+                </div>
+                <div className="inline-flex items-center gap-1" role="radiogroup" aria-label="Win definition">
+                    {(Object.keys(WIN_DEFINITIONS) as WinDefinition[]).map(d => (
+                        <button key={d} role="radio" aria-checked={definition === d} onClick={() => setDefinition(d)} className={optionStyle(definition === d)}>
+                            {WIN_DEFINITIONS[d]}
+                        </button>
+                    ))}
+                </div>
+                <label className="inline-flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider">
+                    Margin
+                    <select value={threshold} onChange={e => setThreshold(Number(e.target.value))} className="bg-white border border-slate-200 rounded px-1.5 py-0.5 font-mono normal-case">
+                        {WIN_THRESHOLDS.map(t => <option key={t} value={t}>{t * 100}%</option>)}
+                    </select>
+                </label>
+            </div>
+
+            <ul className="flex flex-col gap-1.5">
+                {rows.map(({ entry, win }) => {
+                    const reported = getMetricValue(entry, 'win_rate');
+                    return (
+                        <li key={entry.algorithm} className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                            <span className="w-28 font-semibold text-slate-700 truncate">{label(entry)}</span>
+                            <span className="w-24 font-mono text-slate-900">{win.rate.toFixed(0)}% <span className="text-slate-400">({win.wins}/{win.runs})</span></span>
+                            <span className="flex gap-1" aria-label={`${win.wins} of ${win.runs} runs won`}>
+                                {win.outcomes.map((o, i) => (
+                                    <span
+                                        key={i}
+                                        title={`Run ${i + 1}: ${formatMetricValue(o.value, metric)} vs ${formatMetricValue(o.reference, metric)} (${o.improvement >= 0 ? '+' : ''}${(o.improvement * 100).toFixed(1)}% better) → ${o.win ? 'win' : 'no win'}`}
+                                        className={`w-2.5 h-2.5 rounded-full ${o.win ? 'bg-emerald-500' : 'bg-slate-300'}`}
+                                    ></span>
+                                ))}
+                            </span>
+                            {reported !== undefined && baseline === HUMAN_BASELINE && (
+                                <span className="text-[10px] text-slate-400">reported: {reported}%</span>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <p className="text-[10px] text-slate-400">
+                A run counts as a win when its {metric.symbol} is {margin} {metric.direction === 'lower' ? 'lower' : 'higher'} than {baselineLabel}'s {definition === 'paired' ? 'run with the same seed' : 'mean'}.
+                {unpaired && ' Where seeds cannot be paired, runs are compared with the baseline mean.'}
+                {' '}Hover a dot for the values compared.
+            </p>
+        </div>
+    );
+};
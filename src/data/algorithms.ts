@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type AlgorithmFamily = 'baseline' | 'value-based' | 'policy-gradient';
+
+export interface AlgorithmInfo {
+    id: string;
+    label: string;
+    family: AlgorithmFamily;
+    color: string; // Tailwind background class used by the bars
+    hex: string; // Same color for SVG and canvas output
+}
+
+export const FAMILY_LABELS: Record<AlgorithmFamily, string> = {
+    'baseline': 'Baselines',
+    'value-based': 'Value-based MARL',
+    'policy-gradient': 'Policy-gradient MARL',
+};
+
+// Display order: baselines first, then MARL algorithms as reported in the paper
+export const ALGORITHMS: AlgorithmInfo[] = [
+    { id: 'human', label: 'Human Drivers', family: 'baseline', color: 'bg-slate-500', hex: '#64748b' },
+    { id: 'aon', label: 'All-or-Nothing', family: 'baseline', color: 'bg-slate-300', hex: '#cbd5e1' },
+    { id: 'random', label: 'Random', family: 'baseline', color: 'bg-slate-300', hex: '#cbd5e1' },
+    { id: 'qmix', label: 'QMIX', family: 'value-based', color: 'bg-urb-blue', hex: '#2563EB' },
+    { id: 'ippo', label: 'IPPO', family: 'policy-gradient', color: 'bg-indigo-500', hex: '#6366f1' },
+    { id: 'iql', label: 'IQL', family: 'value-based', color: 'bg-sky-500', hex: '#0ea5e9' },
+    { id: 'mappo', label: 'MAPPO', family: 'policy-gradient', color: 'bg-blue-400', hex: '#60a5fa' },
+];
+
+export const getAlgorithm = (id: string): AlgorithmInfo | undefined => ALGORITHMS.find(a => a.id === id);
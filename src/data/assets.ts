@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AUTHORS } from './authors';
+import { NETWORKS } from './networks';
+
+// --- REMOTE ASSETS ---
+// Every third-party file the site shows or loads, including the published network,
+// demand and episode files. The build downloads these, emits hashed (and, for images,
+// resized) copies into dist/assets and the components pick them up through
+// src/lib/assets.ts; anything that could not be downloaded keeps its remote URL.
+
+export interface RemoteAsset {
+    url: string;
+    name: string; // Readable part of the emitted file name
+    width?: number; // Largest display size in CSS px; 1x and 2x variants are generated
+    height?: number;
+}
+
+const ICON_BASE = 'https://github.com/aonurakman/assets/blob/main/icons';
+
+export const LOGO_URL = 'https://raw.githubusercontent.com/COeXISTENCE-PROJECT/URB/refs/heads/main/docs/urb.png';
+
+export const ICONS = {
+    coexistenceSmall: `${ICON_BASE}/coexistence_small.png?raw=true`,
+    arxiv: `${ICON_BASE}/arxiv.svg.png?raw=true`,
+    kaggle: 'https://upload.wikimedia.org/wikipedia/commons/thumb/f/f4/Kaggle_Logo.svg/2560px-Kaggle_Logo.svg.png',
+    uj: `${ICON_BASE}/uj.png?raw=true`,
+    coexistence: `${ICON_BASE}/coexistence.png?raw=true`,
+    gmum: `${ICON_BASE}/gmum.png?raw=true`,
+    erc: `${ICON_BASE}/erc.png?raw=true`,
+};
+
+export const TEXT3D_FONT_URL = 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/fonts/helvetiker_bold.typeface.json';
+
+// What drei's <Environment preset="city" /> would fetch
+export const ENVIRONMENT_MAP_URL = 'https://raw.githack.com/pmndrs/drei-assets/456060a26bbeb8fdf79326f224b6d99b8bcce736/hdri/potsdamer_platz_1k.hdr';
+
+export const avatarUrl = (github: string) => `https://github.com/${github}.png`;
+
+export const REMOTE_ASSETS: RemoteAsset[] = [
+    { url: LOGO_URL, name: 'urb-logo', height: 128 },
+    { url: ICONS.coexistenceSmall, name: 'coexistence-small', height: 24 },
+    { url: ICONS.arxiv, name: 'arxiv', height: 24 },
+    { url: ICONS.kaggle, name: 'kaggle', height: 16 },
+    { url: ICONS.uj, name: 'uj', height: 64 },
+    { url: ICONS.coexistence, name: 'coexistence', height: 48 },
+    { url: ICONS.gmum, name: 'gmum', height: 40 },
+    { url: ICONS.erc, name: 'erc', height: 64 },
+    { url: TEXT3D_FONT_URL, name: 'helvetiker-bold' },
+    { url: ENVIRONMENT_MAP_URL, name: 'potsdamer-platz' },
+    ...AUTHORS.filter(a => a.github).map(a => ({ url: avatarUrl(a.github!), name: `avatar-${a.github!.toLowerCase()}`, width: 64 })),
+    // Carousel cards are the largest place network maps are shown
+    ...NETWORKS.filter(n => n.image).map(n => ({ url: n.image!, name: `network-${n.id}`, width: 256 })),
+    ...NETWORKS.filter(n => n.networkFile).map(n => ({ url: n.networkFile!, name: `${n.id}-net` })),
+];
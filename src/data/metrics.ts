@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type MetricDirection = 'lower' | 'higher';
+
+export interface MetricInfo {
+    id: string;
+    label: string;
+    symbol: string;
+    unit: string;
+    suffix: string; // Short unit shown next to values
+    decimals: number;
+    direction: MetricDirection;
+    description: string;
+    required: boolean; // Every results entry must report required metrics
+    humanReference?: string; // Metric the human baseline reports instead, when humans cannot report this one
+    range?: [number, number]; // Valid interval, if bounded
+}
+
+export const METRICS: MetricInfo[] = [
+    {
+        id: 't_pre',
+        label: 'Pre-training Travel Time',
+        symbol: 't_pre',
+        unit: 'min',
+        suffix: 'm',
+        decimals: 2,
+        direction: 'lower',
+        description: 'Mean human travel times before CAVs are introduced (t_pre).',
+        required: false,
+    },
+    {
+        id: 't_cav',
+        label: 'CAV Travel Time',
+        symbol: 't_CAV',
+        unit: 'min',
+        suffix: 'm',
+        decimals: 2,
+        direction: 'lower',
+        description: 'Mean CAV travel times (t_CAV).',
+        required: true,
+        humanReference: 't_pre', // Without CAVs, human drivers are compared on their own travel times
+    },
+    {
+        id: 'dt_hdv',
+        label: 'Human Travel Time Shift',
+        symbol: 'Δt_HDV',
+        unit: 'min',
+        suffix: 'm',
+        decimals: 2,
+        direction: 'lower',
+        description: 'Change in mean human travel times after CAVs are introduced (Δt_HDV).',
+        required: false,
+    },
+    {
+        id: 'c_train',
+        label: 'Cost of Training',
+        symbol: 'c_train',
+        unit: 'min',
+        suffix: 'm',
+        decimals: 2,
+        direction: 'lower',
+        description: 'Mean extra travel time imposed on all drivers while the CAVs are learning (c_train).',
+        required: false,
+    },
+    {
+        id: 'win_rate',
+        label: 'Win Rate',
+        symbol: 'WR',
+        unit: '%',
+        suffix: '%',
+        decimals: 0,
+        direction: 'higher',
+        description: 'Share of runs in which CAVs travel faster than human drivers, as reported by the submitter. The chart view recomputes it from per-seed values.',
+        required: false,
+        range: [0, 100],
+    },
+];
+
+export const DEFAULT_METRIC = 't_cav';
+
+export const getMetric = (id: string): MetricInfo | undefined => METRICS.find(m => m.id === id);
+
+export const formatMetricValue = (value: number, metric: MetricInfo) => `${value.toFixed(metric.decimals)}${metric.suffix}`;
+
+export const isBetter = (a: number, b: number, metric: MetricInfo) =>
+    metric.direction === 'lower' ? a < b : a > b;
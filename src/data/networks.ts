@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- NETWORK REGISTRY ---
+// Single source of truth for the networks shown across the site. Statistics that
+// have not been published yet are null, and views leave them out rather than guess.
+
+export type SizeClass = 'small' | 'medium' | 'large';
+
+export interface NetworkInfo {
+    id: string; // Folder name in the URB dataset
+    name: string;
+    region: string;
+    sizeClass: SizeClass | null;
+    trips: number | null;
+    agents: number | null;
+    edges: number | null; // Road segments in the SUMO network
+    origins: number | null; // Distinct trip origins in the demand
+    destinations: number | null;
+    image: string | null;
+    networkFile: string | null; // SUMO .net.xml
+}
+
+export const DATASET_URL = 'https://doi.org/10.34740/kaggle/ds/7406751';
+
+// Networks in the published URB dataset. NETWORKS lists those whose name and files are
+// confirmed so far; the rest are added as their details are published.
+export const DATASET_NETWORK_COUNT = 29;
+
+const ILE_DE_FRANCE = 'Île-de-France, France';
+const BAVARIA = 'Bavaria, Germany';
+
+const ileDeFranceImage = (id: string) =>
+    `https://github.com/COeXISTENCE-PROJECT/Ile-de-france/blob/main/${id}/${id}_network.png?raw=true`;
+
+// Served with CORS headers, so the browser can parse it directly
+const ileDeFranceFile = (id: string, file: string) =>
+    `https://raw.githubusercontent.com/COeXISTENCE-PROJECT/Ile-de-france/main/${id}/${file}`;
+
+const ileDeFrance = (id: string, name: string, stats: Partial<Pick<NetworkInfo, 'sizeClass' | 'trips' | 'agents' | 'edges' | 'origins' | 'destinations'>> = {}): NetworkInfo => ({
+    id,
+    name,
+    region: ILE_DE_FRANCE,
+    sizeClass: null,
+    trips: null,
+    agents: null,
+    edges: null,
+    origins: null,
+    destinations: null,
+    image: ileDeFranceImage(id),
+    networkFile: ileDeFranceFile(id, `${id}.net.xml`),
+    ...stats,
+});
+
+export const NETWORKS: NetworkInfo[] = [
+    ileDeFrance('beynes', 'Beynes'),
+    ileDeFrance('provins', 'Provins', { sizeClass: 'medium', trips: 523 }),
+    ileDeFrance('saint_arnoult', 'Saint-Arnoult', { sizeClass: 'small', trips: 222 }),
+    ileDeFrance('nemours', 'Nemours'),
+    ileDeFrance('rambouillet', 'Rambouillet'),
+    ileDeFrance('melun', 'Melun'),
+    ileDeFrance('meaux', 'Meaux'),
+    ileDeFrance('coulommiers', 'Coulommiers'),
+    ileDeFrance('etampes', 'Étampes'),
+    ileDeFrance('nangis', 'Nangis'),
+    { id: 'ingolstadt', name: 'Ingolstadt', region: BAVARIA, sizeClass: 'large', trips: 1035, agents: null, edges: null, origins: null, destinations: null, image: null, networkFile: null },
+];
+
+export const getNetwork = (id: string): NetworkInfo | undefined => NETWORKS.find(n => n.id === id);
+
+export const SIZE_LABELS: Record<SizeClass, string> = {
+    small: 'Small',
+    medium: 'Medium',
+    large: 'Large',
+};
+
+/** Case- and accent-insensitive match on name, id and region. */
+export const matchesNetwork = (network: NetworkInfo, query: string) => {
+    const normalize = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    const q = normalize(query.trim());
+    return q === '' || [network.name, network.id, network.region].some(field => normalize(field).includes(q));
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import neurips2025 from './results/neurips-2025.json';
+import { ResultsFile } from './results';
+
+// --- BENCHMARK RELEASES ---
+// Every release keeps its own results file, so published numbers are never edited
+// in place. To cut a release, add src/data/results/<id>.json (with "release": "<id>")
+// and put a new entry at the top of RELEASES with notes explaining what changed.
+
+/** A changelog line; scoped notes are shown next to the numbers they explain in the diff view. */
+export interface ReleaseNote {
+    text: string;
+    network?: string;
+    algorithm?: string;
+    metric?: string;
+}
+
+export interface Release {
+    id: string; // Matches "release" in the results file
+    label: string;
+    date: string; // ISO date (YYYY-MM-DD or YYYY-MM)
+    results: ResultsFile;
+    notes: ReleaseNote[];
+}
+
+// Newest first
+export const RELEASES: Release[] = [
+    {
+        id: 'neurips-2025',
+        label: 'NeurIPS 2025',
+        date: '2025-05',
+        results: neurips2025 as ResultsFile,
+        notes: [
+            { text: 'First release: Table 1 of the URB paper, covering Saint-Arnoult, Provins and Ingolstadt.' },
+            { text: 'Baselines: human drivers, All-or-Nothing assignment and random routing. MARL: QMIX, IPPO, IQL and MAPPO.' },
+        ],
+    },
+];
+
+export const LATEST_RELEASE = RELEASES[0];
+
+export const getRelease = (id: string): Release | undefined => RELEASES.find(r => r.id === id);
+
+/** The release published before the given one, if any. */
+export const getPreviousRelease = (id: string): Release | undefined => {
+    const idx = RELEASES.findIndex(r => r.id === id);
+    return idx === -1 ? undefined : RELEASES[idx + 1];
+};
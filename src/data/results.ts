@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ALGORITHMS, AlgorithmFamily, AlgorithmInfo, getAlgorithm } from './algorithms';
+import { METRICS, MetricInfo, getMetric } from './metrics';
+import { NETWORKS } from './networks';
+import { Summary, summarize } from '../lib/stats';
+
+// --- RESULTS FILE SCHEMA ---
+// Bump when the shape of the results file changes, not when numbers change.
+export const RESULTS_SCHEMA_VERSION = 3;
+
+export interface MetricValue {
+    value: number; // Mean over seeds, as reported
+    unit: string;
+    seeds?: number[]; // Per-seed values, when published
+}
+
+export interface ResultEntry {
+    network: string;
+    algorithm: string;
+    metrics: Record<string, MetricValue>;
+    note?: string;
+}
+
+export interface NetworkSummary {
+    note?: string;
+}
+
+// Submissions may introduce algorithms that are not in the built-in registry
+export interface AlgorithmDeclaration {
+    label: string;
+    family: AlgorithmFamily;
+}
+
+export interface ResultsFile {
+    schemaVersion: number;
+    release: string;
+    source: string;
+    algorithms?: Record<string, AlgorithmDeclaration>;
+    networks: Record<string, NetworkSummary>;
+    entries: ResultEntry[];
+}
+
+// --- QUERIES ---
+
+export interface ResultsFilter {
+    networks?: string[];
+    families?: AlgorithmFamily[];
+}
+
+const DECLARED_ALGORITHM_COLOR = { color: 'bg-emerald-500', hex: '#10b981' };
+
+/** Registry entry for an algorithm, falling back to the declaration in the results file. */
+export const resolveAlgorithm = (results: ResultsFile, id: string): AlgorithmInfo | undefined => {
+    const known = getAlgorithm(id);
+    if (known) return known;
+    const declared = results.algorithms?.[id];
+    return declared && { id, ...declared, ...DECLARED_ALGORITHM_COLOR };
+};
+
+export const getMetricValue = (entry: ResultEntry, metricId: string): number | undefined =>
+    entry.metrics[metricId]?.value;
+
+/**
+ * What an entry is compared against as a baseline. Human drivers cannot report CAV
+ * metrics, so the human baseline stands in with the metric's human reference
+ * (t_pre for t_CAV). Only for comparisons: never show it as the metric itself.
+ */
+export const getReferenceResult = (entry: ResultEntry, metricId: string): { id: string, result: MetricValue } | undefined => {
+    if (entry.metrics[metricId]) return { id: metricId, result: entry.metrics[metricId] };
+    const reference = entry.algorithm === HUMAN_BASELINE ? getMetric(metricId)?.humanReference : undefined;
+    return reference !== undefined && entry.metrics[reference] ? { id: reference, result: entry.metrics[reference] } : undefined;
+};
+
+/** Metrics reported by at least one of the entries, in registry order. */
+export const reportedMetrics = (entries: ResultEntry[]): MetricInfo[] =>
+    METRICS.filter(m => entries.some(e => getMetricValue(e, m.id) !== undefined));
+
+/** Spread across seeds; a single-value summary when only the mean is published. */
+export const getMetricSummary = (entry: ResultEntry, metricId: string): Summary | undefined => {
+    const metric = entry.metrics[metricId];
+    if (!metric) return undefined;
+    return summarize(metric.seeds && metric.seeds.length > 0 ? metric.seeds : [metric.value]);
+};
+
+/** Networks that have at least one entry, in registry order. */
+export const getResultNetworks = (results: ResultsFile): string[] => {
+    const ids = new Set(results.entries.map(e => e.network));
+    const known = NETWORKS.map(n => n.id).filter(id => ids.has(id));
+    const unknown = [...ids].filter(id => !known.includes(id));
+    return [...known, ...unknown];
+};
+
+export const filterEntries = (results: ResultsFile, filter: ResultsFilter): ResultEntry[] =>
+    results.entries.filter(e => {
+        if (filter.networks && !filter.networks.includes(e.network)) return false;
+        const family = resolveAlgorithm(results, e.algorithm)?.family;
+        if (filter.families && (!family || !filter.families.includes(family))) return false;
+        return true;
+    });
+
+/** Position of an algorithm in display order; unknown ids come last. */
+export const algorithmOrder = (id: string) => {
+    const idx = ALGORITHMS.findIndex(a => a.id === id);
+    return idx === -1 ? ALGORITHMS.length : idx;
+};
+
+export type SortKey = 'network' | 'algorithm' | `metric:${string}`;
+
+export interface SortState {
+    key: SortKey;
+    ascending: boolean;
+}
+
+/** Sort entries; missing metric values always sink to the bottom. */
+export const sortEntries = (entries: ResultEntry[], sort: SortState): ResultEntry[] => {
+    const networkOrder = (id: string) => {
+        const idx = NETWORKS.findIndex(n => n.id === id);
+        return idx === -1 ? NETWORKS.length : idx;
+    };
+    const sign = sort.ascending ? 1 : -1;
+
+    return [...entries].sort((a, b) => {
+        if (sort.key === 'network') {
+            return sign * (networkOrder(a.network) - networkOrder(b.network)) || algorithmOrder(a.algorithm) - algorithmOrder(b.algorithm);
+        }
+        if (sort.key === 'algorithm') {
+            return sign * (algorithmOrder(a.algorithm) - algorithmOrder(b.algorithm)) || networkOrder(a.network) - networkOrder(b.network);
+        }
+        const metricId = sort.key.slice('metric:'.length);
+        const va = getMetricValue(a, metricId);
+        const vb = getMetricValue(b, metricId);
+        if (va === undefined && vb === undefined) return 0;
+        if (va === undefined) return 1;
+        if (vb === undefined) return -1;
+        return sign * (va - vb);
+    });
+};
+
+/** Entries of a single network in algorithm display order. */
+export const getNetworkEntries = (results: ResultsFile, network: string): ResultEntry[] =>
+    results.entries
+        .filter(e => e.network === network)
+        .sort((a, b) => algorithmOrder(a.algorithm) - algorithmOrder(b.algorithm));
+
+export const HUMAN_BASELINE = 'human';
+export const RANDOM_BASELINE = 'random';
+
+/** Entry of `algorithm` on a network, if it has one. */
+export const findEntry = (results: ResultsFile, network: string, algorithm: string): ResultEntry | undefined =>
+    results.entries.find(e => e.network === network && e.algorithm === algorithm);
+
+/**
+ * Relative gap of an entry to a baseline on the same network, e.g. +0.05 = 5% above.
+ * Undefined when either side does not report the metric or its human reference.
+ */
+export const getBaselineGap = (results: ResultsFile, entry: ResultEntry, metricId: string, baseline = HUMAN_BASELINE): number | undefined => {
+    const reference = findEntry(results, entry.network, baseline);
+    const value = getMetricValue(entry, metricId);
+    const base = reference && getReferenceResult(reference, metricId)?.result.value;
+    if (value === undefined || base === undefined || base === 0) return undefined;
+    return (value - base) / Math.abs(base);
+};
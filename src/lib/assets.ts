@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import vendored from 'virtual:remote-assets';
+
+// --- VENDORED ASSETS ---
+// Lookups into the copies the build made of src/data/assets.ts. Anything that was not
+// vendored (the dev server, or a download that failed at build time) resolves to its
+// remote URL, so callers never need to care which one they got.
+
+export interface VendoredAsset {
+    src: string;
+    srcSet?: string; // Original format, 1x and 2x
+    avif?: string; // srcset
+    webp?: string;
+}
+
+export const vendoredAsset = (url: string): VendoredAsset | undefined => vendored[url];
+
+/** Local URL of a vendored file, or the remote URL when it was not vendored. */
+export const assetUrl = (url: string) => vendored[url]?.src ?? url;
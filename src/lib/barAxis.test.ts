@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildAxis, percentOf } from './barAxis';
+
+test('an all-zero series still gets a finite axis', () => {
+    for (const mode of ['absolute', 'zoomed', 'delta'] as const) {
+        const axis = buildAxis([0, 0, 0], mode, 'Δt', '%');
+        assert.ok(axis.max > axis.min, `${mode}: empty range`);
+        assert.ok(Number.isFinite(percentOf(axis, 0)), `${mode}: bar position is not finite`);
+        assert.ok(axis.ticks.length > 0, `${mode}: no ticks`);
+    }
+});
+
+test('bars from zero keep the sign of negative values', () => {
+    const axis = buildAxis([-4, 2], 'absolute', 'Δt', '');
+    assert.ok(axis.min < -4 && axis.max > 2);
+    assert.equal(axis.origin, 0);
+    assert.ok(percentOf(axis, -4) < percentOf(axis, 0));
+});
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MetricInfo, getMetric } from '../data/metrics';
+import { HUMAN_BASELINE, ResultEntry, ResultsFile, findEntry, getMetricSummary, getReferenceResult, resolveAlgorithm } from '../data/results';
+import { niceTicks, stepDecimals } from './ticks';
+
+// --- BAR CHART AXIS ---
+// Shared by the on-screen bar chart and the exported figure, so both draw the same scale.
+
+/** ci: mean with a 95% CI; box: box plot with each seed. */
+export type DistributionMode = 'ci' | 'box';
+
+/** absolute: bars from zero; zoomed: axis cut to the data range; delta: percent change vs a baseline, diverging around 0. */
+export type AxisMode = 'absolute' | 'zoomed' | 'delta';
+
+export interface Axis {
+    min: number;
+    max: number;
+    origin: number; // Where bars start
+    ticks: number[];
+    decimals: number;
+    suffix: string;
+    label: string;
+    broken: boolean; // True when the axis does not start at zero
+}
+
+/** Position of an axis value along the axis, from 0 to 100. */
+export const percentOf = (axis: Axis, v: number) => ((v - axis.min) / (axis.max - axis.min)) * 100;
+
+export const buildAxis = (values: number[], mode: AxisMode, label: string, suffix: string): Axis => {
+    const lo = Math.min(...values);
+    const hi = Math.max(...values);
+    let min: number;
+    let max: number;
+
+    if (mode === 'zoomed') {
+        const pad = (hi - lo) * 0.15 || Math.abs(hi) * 0.05 || 1;
+        // Only cut the axis when it would not reach zero anyway
+        min = lo >= 0 && lo - pad > 0 ? lo - pad : Math.min(0, lo - pad);
+        max = hi + pad;
+    } else {
+        const pad = (Math.max(hi, 0) - Math.min(lo, 0)) * 0.05 || 1;
+        min = lo < 0 ? lo - pad : 0;
+        max = hi > 0 ? hi + pad : 0;
+        // All values at zero, e.g. only the baseline in delta mode: keep a unit span
+        if (max === min) max = min + pad;
+    }
+
+    const { step, ticks } = niceTicks(min, max);
+    return {
+        min,
+        max,
+        origin: mode === 'zoomed' ? min : 0,
+        ticks,
+        decimals: stepDecimals(step),
+        suffix,
+        label,
+        broken: min > 0,
+    };
+};
+
+/** Human drivers' own measure, drawn as a marker where they cannot report the metric itself. */
+export interface ReferenceMarker {
+    value: number;
+    label: string; // e.g. "Human Drivers t_pre"
+}
+
+export interface BarScale {
+    mode: AxisMode; // Delta falls back to absolute when the baseline is missing or zero
+    base?: number; // Baseline mean or its human reference, when the network reports it
+    baselineLabel: string;
+    reference?: ReferenceMarker;
+    toAxis: (v: number) => number; // Metric value to axis value
+    axis: Axis;
+}
+
+/** Axis for the bars of `entries` (all of one network), leaving room for their CIs, widest seeds and the human reference. */
+export const barScale = (results: ResultsFile, entries: ResultEntry[], metric: MetricInfo, axisMode: AxisMode, baseline: string): BarScale => {
+    const network = entries[0]?.network ?? '';
+    const baselineEntry = findEntry(results, network, baseline);
+    const baseResult = baselineEntry && getReferenceResult(baselineEntry, metric.id);
+    const base = baseResult?.result.value;
+    const human = findEntry(results, network, HUMAN_BASELINE);
+    const humanReference = human && getReferenceResult(human, metric.id);
+    const reference = humanReference && humanReference.id !== metric.id ? {
+        value: humanReference.result.value,
+        label: `${resolveAlgorithm(results, HUMAN_BASELINE)?.label ?? HUMAN_BASELINE} ${getMetric(humanReference.id)?.symbol ?? humanReference.id}`,
+    } : undefined;
+    const mode: AxisMode = axisMode === 'delta' && (base === undefined || base === 0) ? 'absolute' : axisMode;
+    const toAxis = mode === 'delta' ? (v: number) => ((v - base!) / Math.abs(base!)) * 100 : (v: number) => v;
+    // Name the stand-in measure when the baseline reports the human reference instead
+    const baselineLabel = (resolveAlgorithm(results, baseline)?.label ?? baseline)
+        + (baseResult && baseResult.id !== metric.id ? ` ${getMetric(baseResult.id)?.symbol ?? baseResult.id}` : '');
+
+    const extent = entries
+        .map(e => getMetricSummary(e, metric.id)!)
+        .flatMap(s => [s.mean, s.min, s.max, ...(s.ci95 ?? [])])
+        .concat(reference ? [reference.value] : [])
+        .map(toAxis);
+    const axis = mode === 'delta'
+        ? buildAxis(extent.concat(0), 'delta', `Change in ${metric.symbol} vs ${baselineLabel} (%)`, '%')
+        : buildAxis(extent, mode, `${metric.label} (${metric.unit})`, metric.suffix);
+
+    return { mode, base, baselineLabel, reference, toAxis, axis };
+};
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getMetric } from '../data/metrics';
+import { NETWORKS } from '../data/networks';
+import { mean, std } from './stats';
+import { ValidationError } from './validateResults';
+
+// --- LEARNING CURVES ---
+// One compact file per algorithm and network, served from
+// public/data/curves/<network>/<algorithm>.json and listed in public/data/curves/index.json
+// ({ "<network>": ["<algorithm>", ...] }). Travel times are per-episode means in minutes:
+//
+//   { "schemaVersion": 1, "network": "saint_arnoult", "algorithm": "qmix", "unit": "min",
+//     "episodeStride": 1, "seeds": [{ "cav": [3.9, 3.7, ...], "human": [3.1, 3.2, ...] }] }
+//
+// "human" is the travel time of the human drivers sharing the network during training.
+
+export const CURVES_SCHEMA_VERSION = 1;
+const CURVES_ROOT = '/data/curves';
+
+export interface CurveSeed {
+    cav: number[];
+    human?: number[];
+}
+
+export interface CurveFile {
+    schemaVersion: number;
+    network: string;
+    algorithm: string;
+    unit: string;
+    episodeStride?: number; // Episodes between points, default 1
+    seeds: CurveSeed[];
+}
+
+export interface CurveValidation {
+    valid: boolean;
+    errors: ValidationError[];
+    curves?: CurveFile;
+}
+
+const isNumberArray = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'number' && Number.isFinite(v));
+
+export const validateCurveFile = (input: unknown): CurveValidation => {
+    const errors: ValidationError[] = [];
+    const add = (path: string, message: string) => errors.push({ path, message });
+
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return { valid: false, errors: [{ path: '(root)', message: 'curves file must be a JSON object' }] };
+    }
+    const file = input as Record<string, unknown>;
+    const unit = getMetric('t_cav')!.unit;
+
+    if (file.schemaVersion !== CURVES_SCHEMA_VERSION) add('schemaVersion', `must be ${CURVES_SCHEMA_VERSION}, got ${JSON.stringify(file.schemaVersion)}`);
+    if (typeof file.network !== 'string' || !NETWORKS.some(n => n.id === file.network)) add('network', `unknown network ${JSON.stringify(file.network)}`);
+    if (typeof file.algorithm !== 'string' || file.algorithm.trim() === '') add('algorithm', 'must be a non-empty string');
+    if (file.unit !== unit) add('unit', `travel times must be in "${unit}", got ${JSON.stringify(file.unit)}`);
+    if (file.episodeStride !== undefined && (!Number.isInteger(file.episodeStride) || (file.episodeStride as number) < 1)) {
+        add('episodeStride', 'must be a positive integer');
+    }
+
+    if (!Array.isArray(file.seeds) || file.seeds.length === 0) {
+        add('seeds', 'must be a non-empty array');
+    } else {
+        file.seeds.forEach((seed, i) => {
+            const s = seed as Partial<CurveSeed> | null;
+            if (!s || !isNumberArray(s.cav)) add(`seeds[${i}].cav`, 'must be a non-empty array of finite numbers');
+            if (s?.human !== undefined && !isNumberArray(s.human)) add(`seeds[${i}].human`, 'must be a non-empty array of finite numbers');
+        });
+    }
+
+    const valid = errors.length === 0;
+    return { valid, errors, curves: valid ? file as unknown as CurveFile : undefined };
+};
+
+/** Algorithms with a published curves file, keyed by network; empty when none are published. */
+export const fetchCurveIndex = async (): Promise<Record<string, string[]>> => {
+    const res = await fetch(`${CURVES_ROOT}/index.json`);
+    if (!res.ok) return {};
+    return res.json();
+};
+
+export const fetchCurves = async (network: string, algorithm: string): Promise<CurveFile> => {
+    const res = await fetch(`${CURVES_ROOT}/${network}/${algorithm}.json`);
+    if (!res.ok) throw new Error(`${network}/${algorithm}: HTTP ${res.status}`);
+    const result = validateCurveFile(await res.json());
+    if (!result.valid) throw new Error(`${network}/${algorithm}: ${result.errors[0].path}: ${result.errors[0].message}`);
+    return result.curves!;
+};
+
+// --- SERIES ---
+
+export interface CurvePoint {
+    episode: number;
+    mean: number;
+    lo: number; // Mean minus one std across seeds
+    hi: number;
+}
+
+/** Exponential moving average, as in TensorBoard; weight 0 leaves values untouched. */
+export const smooth = (values: number[], weight: number) => {
+    let last = values[0];
+    return values.map(v => {
+        last = last * weight + v * (1 - weight);
+        return last;
+    });
+};
+
+/** Per-episode mean and ±1 std band across seeds, after smoothing each seed. Seeds are cut to the shortest. */
+export const curveBand = (series: number[][], weight: number, stride = 1): CurvePoint[] => {
+    if (series.length === 0) return [];
+    const smoothed = series.map(s => smooth(s, weight));
+    const length = Math.min(...smoothed.map(s => s.length));
+    return Array.from({ length }, (_, i) => {
+        const values = smoothed.map(s => s[i]);
+        const m = mean(values);
+        const s = std(values);
+        return { episode: (i + 1) * stride, mean: m, lo: m - s, hi: m + s };
+    });
+};
+
+/** First episode whose smoothed mean travel time is below the baseline. */
+export const firstEpisodeBelow = (points: CurvePoint[], baseline: number) =>
+    points.find(p => p.mean < baseline)?.episode;
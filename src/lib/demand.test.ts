@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DOMParser } from 'linkedom';
+import { MAX_FLOW_TRIPS, departureHistogram, odPairs, parseDemandCsv, parseDemandFile, parseRoutesXml } from './demand';
+
+// Node has no DOMParser; the parser only needs the standard XML DOM
+Object.assign(globalThis, { DOMParser });
+
+test('routes XML reads vehicles, trips and flows', () => {
+    const demand = parseRoutesXml(`<routes>
+        <route id="r" edges="a b c"/>
+        <vehicle id="v" depart="5" route="r" type="cav"/>
+        <vehicle id="e" depart="1"><route edges="d e"/></vehicle>
+        <trip id="t" depart="7" from="a" to="b"/>
+        <flow id="f" begin="0" end="10" number="2" from="a" to="c"/>
+    </routes>`);
+    assert.deepEqual(demand.trips, [
+        { id: 'v', depart: 5, origin: 'a', destination: 'c', kind: 'cav' },
+        { id: 'e', depart: 1, origin: 'd', destination: 'e', kind: undefined },
+        { id: 't', depart: 7, origin: 'a', destination: 'b', kind: undefined },
+        { id: 'f.0', depart: 0, origin: 'a', destination: 'c', kind: undefined },
+        { id: 'f.1', depart: 5, origin: 'a', destination: 'c', kind: undefined },
+    ]);
+    assert.deepEqual(demand.warnings, []);
+});
+
+test('unusable routes entries are counted, not expanded', () => {
+    const demand = parseRoutesXml(`<routes>
+        <trip id="x" depart="soon" from="a" to="b"/>
+        <trip id="y" depart="1"/>
+        <flow id="huge" begin="0" end="3600" number="${MAX_FLOW_TRIPS + 1}" from="a" to="b"/>
+        <flow id="open" from="a" to="b"/>
+    </routes>`);
+    assert.deepEqual(demand.trips, []);
+    assert.deepEqual(demand.warnings, [
+        '1 entry skipped: departure time is not a number',
+        '1 entry skipped: <trip> without origin and destination',
+        `1 entry skipped: <flow> of more than ${MAX_FLOW_TRIPS.toLocaleString('en')} vehicles`,
+        '1 entry skipped: <flow> without a countable number of vehicles',
+    ]);
+});
+
+test('CSV columns are matched by name and bad rows skipped', () => {
+    const demand = parseDemandCsv([
+        'agent_id,Kind,From,To,start_time',
+        '1,human,a,b,30',
+        '2,,c,d,60',
+        '3,human,a',
+        '4,human,,b,90',
+        '5,human,a,b,later',
+    ].join('\n'));
+    assert.deepEqual(demand.trips, [
+        { id: '1', depart: 30, origin: 'a', destination: 'b', kind: 'human' },
+        { id: '2', depart: 60, origin: 'c', destination: 'd', kind: undefined },
+    ]);
+    assert.deepEqual(demand.warnings, [
+        '1 entry skipped: row has fewer columns than the header',
+        '1 entry skipped: origin or destination is empty',
+        '1 entry skipped: start_time is not a number',
+    ]);
+    assert.throws(() => parseDemandCsv('id,origin\n1,a'), /Missing columns: destination, start_time/);
+});
+
+test('the format is picked from the content', () => {
+    assert.equal(parseDemandFile('  <routes><trip id="t" depart="0" from="a" to="b"/></routes>').trips[0].id, 't');
+    assert.equal(parseDemandFile('origin,destination,start_time\na,b,0').trips[0].origin, 'a');
+});
+
+test('trips aggregate into OD pairs and departure bins', () => {
+    const { trips } = parseDemandCsv('origin,destination,start_time\na,b,0\na,b,10\nb,a,20\na,b,30');
+    assert.deepEqual(odPairs(trips), [{ origin: 'a', destination: 'b', trips: 3 }, { origin: 'b', destination: 'a', trips: 1 }]);
+    assert.deepEqual(departureHistogram(trips, 3).map(b => [b.start, b.end, b.count]), [[0, 10, 1], [10, 20, 1], [20, 30, 1], [30, 40, 1]]);
+});
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parseCsvRows } from './runUpload';
+import { Point, SumoNetwork } from './sumoNetwork';
+import { niceStep } from './ticks';
+
+// --- DEMAND ---
+// Trips read from either of the two formats networks ship with:
+//
+//   SUMO routes XML: <vehicle>, <trip> and <flow> elements. Origin and destination are the
+//                    from/to edges, or the first and last edge of the route.
+//   URB CSV:         one row per agent, e.g. "id,origin,destination,start_time,kind".
+//                    Origins and destinations are edge or junction ids; times are seconds.
+
+export interface Trip {
+    id: string;
+    depart: number; // s
+    origin: string;
+    destination: string;
+    kind?: string; // Vehicle type or agent kind
+}
+
+export interface Demand {
+    trips: Trip[];
+    warnings: string[]; // Entries that were skipped, summarized
+}
+
+// Flows beyond this many trips are skipped rather than expanded, e.g. number="1e9"
+export const MAX_FLOW_TRIPS = 100_000;
+
+const countWarnings = (counts: Record<string, number>) =>
+    Object.entries(counts).map(([reason, n]) => `${n} ${n === 1 ? 'entry' : 'entries'} skipped: ${reason}`);
+
+export const parseRoutesXml = (xml: string): Demand => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const error = doc.querySelector('parsererror');
+    if (error) throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0] ?? 'parse error'}`);
+    if (doc.documentElement.tagName !== 'routes') throw new Error(`Not a SUMO routes file: root element is <${doc.documentElement.tagName}>, expected <routes>`);
+
+    const elements = Array.from(doc.documentElement.children);
+    const routes = new Map(elements.filter(el => el.tagName === 'route').map(el => [el.getAttribute('id') ?? '', el.getAttribute('edges') ?? '']));
+    const skipped: Record<string, number> = {};
+    const skip = (reason: string) => { skipped[reason] = (skipped[reason] ?? 0) + 1; };
+
+    /** Origin and destination from from/to attributes, an embedded route or a route reference. */
+    const endpoints = (el: Element): [string, string] | undefined => {
+        const from = el.getAttribute('from') ?? el.getAttribute('fromJunction');
+        const to = el.getAttribute('to') ?? el.getAttribute('toJunction');
+        if (from && to) return [from, to];
+        const embedded = el.querySelector('route');
+        const edges = (embedded?.getAttribute('edges') ?? routes.get(el.getAttribute('route') ?? '') ?? '').trim().split(/\s+/).filter(Boolean);
+        return edges.length > 0 ? [edges[0], edges[edges.length - 1]] : undefined;
+    };
+
+    const trips: Trip[] = [];
+    elements.forEach(el => {
+        if (el.tagName !== 'vehicle' && el.tagName !== 'trip' && el.tagName !== 'flow') return;
+        const od = endpoints(el);
+        if (!od) return skip(`<${el.tagName}> without origin and destination`);
+        const id = el.getAttribute('id') ?? String(trips.length);
+        const kind = el.getAttribute('type') ?? undefined;
+
+        if (el.tagName !== 'flow') {
+            const depart = Number(el.getAttribute('depart'));
+            if (!Number.isFinite(depart)) return skip('departure time is not a number');
+            trips.push({ id, depart, origin: od[0], destination: od[1], kind });
+            return;
+        }
+
+        // Flows are spread evenly over their interval
+        const begin = Number(el.getAttribute('begin') ?? 0);
+        const end = Number(el.getAttribute('end') ?? 3600);
+        const period = Number(el.getAttribute('period'));
+        const perHour = Number(el.getAttribute('vehsPerHour'));
+        const count = el.hasAttribute('number') ? Number(el.getAttribute('number'))
+            : period > 0 ? Math.floor((end - begin) / period)
+            : perHour > 0 ? Math.floor(((end - begin) / 3600) * perHour)
+            : NaN;
+        if (!Number.isFinite(begin) || !Number.isFinite(end) || !Number.isFinite(count)) return skip('<flow> without a countable number of vehicles');
+        if (count > MAX_FLOW_TRIPS) return skip(`<flow> of more than ${MAX_FLOW_TRIPS.toLocaleString('en')} vehicles`);
+        for (let i = 0; i < count; i++) {
+            trips.push({ id: `${id}.${i}`, depart: begin + ((end - begin) * i) / count, origin: od[0], destination: od[1], kind });
+        }
+    });
+
+    return { trips, warnings: countWarnings(skipped) };
+};
+
+export const parseDemandCsv = (text: string): Demand => {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) throw new Error('The CSV file is empty');
+    const columns = header.map(h => h.trim().toLowerCase());
+    const column = (...names: string[]) => columns.findIndex(c => names.includes(c));
+    const idCol = column('id', 'agent_id');
+    const originCol = column('origin', 'from');
+    const destinationCol = column('destination', 'to');
+    const departCol = column('start_time', 'depart', 'departure');
+    const kindCol = column('kind', 'type');
+    const missing = [['origin', originCol], ['destination', destinationCol], ['start_time', departCol]].filter(([, i]) => i === -1).map(([name]) => name);
+    if (missing.length > 0) throw new Error(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+
+    const skipped: Record<string, number> = {};
+    const skip = (reason: string): Trip[] => { skipped[reason] = (skipped[reason] ?? 0) + 1; return []; };
+    const required = Math.max(originCol, destinationCol, departCol) + 1;
+
+    const trips = rows.flatMap((row, i): Trip[] => {
+        if (row.length < required) return skip('row has fewer columns than the header');
+        const cell = (col: number) => col >= 0 ? (row[col] ?? '').trim() : '';
+        const depart = Number(cell(departCol));
+        if (cell(departCol) === '' || !Number.isFinite(depart)) return skip('start_time is not a number');
+        const origin = cell(originCol);
+        const destination = cell(destinationCol);
+        if (!origin || !destination) return skip('origin or destination is empty');
+        return [{ id: cell(idCol) || String(i), depart, origin, destination, kind: cell(kindCol) || undefined }];
+    });
+    return { trips, warnings: countWarnings(skipped) };
+};
+
+/** Parse a routes XML or URB CSV file, picked by its content rather than its name. */
+export const parseDemandFile = (text: string): Demand =>
+    text.trimStart().startsWith('<') ? parseRoutesXml(text) : parseDemandCsv(text);
+
+// --- AGGREGATES ---
+
+export interface OdPair {
+    origin: string;
+    destination: string;
+    trips: number;
+}
+
+/** Trips per origin/destination pair, busiest first. */
+export const odPairs = (trips: Trip[]): OdPair[] => {
+    const counts = new Map<string, OdPair>();
+    trips.forEach(t => {
+        const key = `${t.origin}\u0000${t.destination}`;
+        const pair = counts.get(key) ?? { origin: t.origin, destination: t.destination, trips: 0 };
+        pair.trips++;
+        counts.set(key, pair);
+    });
+    return [...counts.values()].sort((a, b) => b.trips - a.trips);
+};
+
+/** Trips per distinct value of `key`, busiest first. */
+export const countBy = (trips: Trip[], key: 'origin' | 'destination') => {
+    const counts = new Map<string, number>();
+    trips.forEach(t => counts.set(t[key], (counts.get(t[key]) ?? 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+};
+
+export interface HistogramBin {
+    start: number; // s
+    end: number;
+    count: number;
+}
+
+/** Time range covered by a set of trips, in seconds. */
+export const departureRange = (trips: Trip[]) => ({
+    // Reduce rather than spread: expanded flows can exceed the argument limit
+    min: trips.reduce((a, t) => Math.min(a, t.depart), Infinity),
+    max: trips.reduce((a, t) => Math.max(a, t.depart), -Infinity),
+});
+
+/**
+ * Departures per time bin, with a round bin width giving roughly `bins` bins.
+ * Pass a shared range to get bins that line up across several demands.
+ */
+export const departureHistogram = (trips: Trip[], bins = 24, range = departureRange(trips)): HistogramBin[] => {
+    if (trips.length === 0) return [];
+    const { min, max } = range;
+    const width = niceStep(Math.max(max - min, 1), bins);
+    const first = Math.floor(min / width) * width;
+    const result = Array.from({ length: Math.floor((max - first) / width) + 1 }, (_, i) => ({ start: first + i * width, end: first + (i + 1) * width, count: 0 }));
+    trips.forEach(t => result[Math.floor((t.depart - first) / width)].count++);
+    return result;
+};
+
+/** Point halfway along a polyline. */
+const midpoint = (shape: Point[]): Point => {
+    const lengths = shape.slice(1).map((p, i) => Math.hypot(p[0] - shape[i][0], p[1] - shape[i][1]));
+    let remaining = lengths.reduce((a, b) => a + b, 0) / 2;
+    for (let i = 0; i < lengths.length; i++) {
+        if (remaining <= lengths[i] && lengths[i] > 0) {
+            const t = remaining / lengths[i];
+            return [shape[i][0] + (shape[i + 1][0] - shape[i][0]) * t, shape[i][1] + (shape[i + 1][1] - shape[i][1]) * t];
+        }
+        remaining -= lengths[i];
+    }
+    return shape[0];
+};
+
+/** Looks up where a demand location sits on the network: an edge's midpoint or a junction. */
+export const demandLocator = (network: SumoNetwork) => {
+    const points = new Map<string, Point>();
+    network.junctions.forEach(j => points.set(j.id, [j.x, j.y]));
+    network.edges.forEach(e => points.set(e.id, midpoint(e.shape)));
+    return (id: string) => points.get(id);
+};
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MetricInfo, formatMetricValue, isBetter } from '../data/metrics';
+import { getNetwork } from '../data/networks';
+import { HUMAN_BASELINE, ResultEntry, ResultsFile, getBaselineGap, getMetricValue, resolveAlgorithm } from '../data/results';
+import { linearFit } from './stats';
+
+// --- CHART SUMMARIES ---
+// One or two sentences with the key finding, used as ARIA descriptions of the charts.
+
+const label = (results: ResultsFile, id: string) => resolveAlgorithm(results, id)?.label ?? id;
+
+const networkName = (id: string) => getNetwork(id)?.name ?? id;
+
+const gapText = (gap: number, metric: MetricInfo) => {
+    const better = metric.direction === 'lower' ? gap < 0 : gap > 0;
+    return `${Math.abs(gap * 100).toFixed(1)}% ${better ? 'better' : 'worse'} than human drivers`;
+};
+
+/** Best entry overall and best non-baseline entry, compared with human drivers. */
+export const describeBars = (results: ResultsFile, entries: ResultEntry[], metric: MetricInfo, network: string) => {
+    const best = (list: ResultEntry[]) =>
+        list.reduce<ResultEntry | undefined>((b, e) => !b || isBetter(getMetricValue(e, metric.id)!, getMetricValue(b, metric.id)!, metric) ? e : b, undefined);
+    const overall = best(entries);
+    if (!overall) return `No ${metric.label} results for ${networkName(network)}.`;
+
+    const sentences = [`On ${networkName(network)}, ${label(results, overall.algorithm)} has the best ${metric.label} (${formatMetricValue(getMetricValue(overall, metric.id)!, metric)}).`];
+    const marl = best(entries.filter(e => resolveAlgorithm(results, e.algorithm)?.family !== 'baseline'));
+    if (marl && marl !== overall) {
+        const gap = getBaselineGap(results, marl, metric.id);
+        sentences.push(`The best learning algorithm, ${label(results, marl.algorithm)}, reaches ${formatMetricValue(getMetricValue(marl, metric.id)!, metric)}${gap !== undefined ? `, ${gapText(gap, metric)}` : ''}.`);
+    }
+    return sentences.join(' ');
+};
+
+/** How many algorithm/network pairs beat human drivers, and the best of them. */
+export const describeHeatmap = (results: ResultsFile, metric: MetricInfo) => {
+    const cells = results.entries
+        .filter(e => e.algorithm !== HUMAN_BASELINE)
+        .map(e => ({ entry: e, gap: getBaselineGap(results, e, metric.id) }))
+        .filter((c): c is { entry: ResultEntry, gap: number } => c.gap !== undefined);
+    if (cells.length === 0) return `No ${metric.label} gaps to human drivers are available.`;
+
+    const improvement = (gap: number) => metric.direction === 'lower' ? -gap : gap;
+    const wins = cells.filter(c => improvement(c.gap) > 0);
+    const best = cells.reduce((b, c) => improvement(c.gap) > improvement(b.gap) ? c : b);
+    return `${wins.length} of ${cells.length} algorithm and network pairs beat human drivers on ${metric.label}. ` +
+        `Best result: ${label(results, best.entry.algorithm)} on ${networkName(best.entry.network)}, ${gapText(best.gap, metric)}.`;
+};
+
+/** How many algorithms fall further behind human drivers as networks grow. */
+export const describeScatter = (results: ResultsFile, metric: MetricInfo, points: { algorithm: string, x: number, gap: number }[], scale: string) => {
+    const algorithms = [...new Set(points.map(p => p.algorithm))];
+    const trends = algorithms.flatMap(id => {
+        const own = points.filter(p => p.algorithm === id);
+        const fit = linearFit(own.map(p => p.x), own.map(p => p.gap));
+        return fit ? [{ id, worsens: metric.direction === 'lower' ? fit.slope > 0 : fit.slope < 0 }] : [];
+    });
+    if (trends.length === 0) return `Too few networks per algorithm to fit a trend of the gap to human drivers against ${scale}.`;
+
+    const worse = trends.filter(t => t.worsens);
+    return `For ${worse.length} of ${trends.length} algorithms the ${metric.label} gap to human drivers widens as ${scale} grows` +
+        (worse.length > 0 ? `: ${worse.map(t => label(results, t.id)).join(', ')}.` : '.');
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { METRICS } from '../data/metrics';
+import { Release, ReleaseNote } from '../data/releases';
+import { ResultEntry, algorithmOrder, getResultNetworks } from '../data/results';
+
+// --- RELEASE DIFF ---
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ResultChange {
+    kind: ChangeKind;
+    network: string;
+    algorithm: string;
+    metric: string;
+    before?: number;
+    after?: number;
+    notes: ReleaseNote[]; // Notes of the newer release that explain this change
+}
+
+const entryKey = (e: ResultEntry) => `${e.network}/${e.algorithm}`;
+
+/** A note applies when every field it is scoped to matches the change. */
+const explains = (note: ReleaseNote, change: Omit<ResultChange, 'notes'>) =>
+    (note.network !== undefined || note.algorithm !== undefined || note.metric !== undefined) &&
+    (note.network === undefined || note.network === change.network) &&
+    (note.algorithm === undefined || note.algorithm === change.algorithm) &&
+    (note.metric === undefined || note.metric === change.metric);
+
+/** Every metric value that was added, removed or changed between two releases, in display order. */
+export const diffReleases = (from: Release, to: Release): ResultChange[] => {
+    const before = new Map(from.results.entries.map(e => [entryKey(e), e]));
+    const after = new Map(to.results.entries.map(e => [entryKey(e), e]));
+    const keys = [...new Set([...before.keys(), ...after.keys()])];
+
+    const changes = keys.flatMap(key => {
+        const a = before.get(key);
+        const b = after.get(key);
+        const { network, algorithm } = (b ?? a)!;
+        return METRICS.flatMap(m => {
+            const va = a?.metrics[m.id]?.value;
+            const vb = b?.metrics[m.id]?.value;
+            if (va === vb) return [];
+            const kind: ChangeKind = va === undefined ? 'added' : vb === undefined ? 'removed' : 'changed';
+            const change = { kind, network, algorithm, metric: m.id, before: va, after: vb };
+            return [{ ...change, notes: to.notes.filter(n => explains(n, change)) }];
+        });
+    });
+
+    // Order like the rest of the results: network, then algorithm, then metric
+    const networks = getResultNetworks({ ...to.results, entries: [...from.results.entries, ...to.results.entries] });
+    const metricOrder = (id: string) => METRICS.findIndex(m => m.id === id);
+    return changes.sort((x, y) =>
+        networks.indexOf(x.network) - networks.indexOf(y.network) ||
+        algorithmOrder(x.algorithm) - algorithmOrder(y.algorithm) ||
+        metricOrder(x.metric) - metricOrder(y.metric));
+};
@@ -0,0 +1,252 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MetricInfo, formatMetricValue, isBetter } from '../data/metrics';
+import { getNetwork } from '../data/networks';
+import { ResultEntry, ResultsFile, getMetricSummary, getMetricValue, reportedMetrics, resolveAlgorithm } from '../data/results';
+import { AxisMode, DistributionMode, barScale, percentOf } from './barAxis';
+
+// --- CLIENT-SIDE EXPORTS ---
+// Every format is generated from the same entries the bars are drawn from.
+
+const networkName = (id: string) => getNetwork(id)?.name ?? id;
+
+// --- CSV ---
+
+const csvCell = (value: string | number | undefined) => {
+    if (value === undefined) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (results: ResultsFile, entries: ResultEntry[]) => {
+    const metrics = reportedMetrics(entries);
+    const header = ['network', 'network_name', 'algorithm', 'algorithm_label', 'family'];
+    metrics.forEach(m => header.push(`${m.id}_${m.unit === '%' ? 'pct' : m.unit}`, `${m.id}_std`, `${m.id}_n`));
+
+    const rows = entries.map(entry => {
+        const algorithm = resolveAlgorithm(results, entry.algorithm);
+        const row: (string | number | undefined)[] = [entry.network, networkName(entry.network), entry.algorithm, algorithm?.label, algorithm?.family];
+        metrics.forEach(m => {
+            const summary = getMetricSummary(entry, m.id);
+            row.push(getMetricValue(entry, m.id), summary && summary.n > 1 ? summary.std : undefined, summary?.n);
+        });
+        return row;
+    });
+
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+// --- JSON ---
+
+/** A results file restricted to the given entries; passes validateResultsFile. */
+export const toResultsJson = (results: ResultsFile, entries: ResultEntry[]) => {
+    const networks = new Set(entries.map(e => e.network));
+    const algorithms = new Set(entries.map(e => e.algorithm));
+    const subset: ResultsFile = {
+        schemaVersion: results.schemaVersion,
+        release: results.release,
+        source: results.source,
+        ...(results.algorithms && {
+            algorithms: Object.fromEntries(Object.entries(results.algorithms).filter(([id]) => algorithms.has(id))),
+        }),
+        networks: Object.fromEntries(Object.entries(results.networks).filter(([id]) => networks.has(id))),
+        entries,
+    };
+    return JSON.stringify(subset, null, 2) + '\n';
+};
+
+// --- LATEX (booktabs) ---
+
+const latexEscape = (text: string) =>
+    text.replace(/\\/g, '\\textbackslash{}').replace(/([&%$#_{}])/g, '\\$1').replace(/~/g, '\\textasciitilde{}').replace(/\^/g, '\\textasciicircum{}');
+
+const latexSymbol = (metric: MetricInfo) => {
+    const [base, sub] = metric.symbol.replace('Δ', '\\Delta ').split('_');
+    return sub ? `$${base}_{\\mathrm{${sub}}}$` : `$\\mathrm{${base}}$`;
+};
+
+export const toLatex = (results: ResultsFile, entries: ResultEntry[]) => {
+    const metrics = reportedMetrics(entries);
+    const networkIds = [...new Set(entries.map(e => e.network))];
+
+    const lines = [
+        '% Requires \\usepackage{booktabs}',
+        '\\begin{table}[t]',
+        '\\centering',
+        `\\caption{URB results (${latexEscape(results.release)}). Mean over seeds; $\\pm$ is the 95\\% CI where available. Bold where one algorithm is best on a network.}`,
+        `\\begin{tabular}{ll${'r'.repeat(metrics.length)}}`,
+        '\\toprule',
+        ['Network', 'Algorithm', ...metrics.map(m => `${latexSymbol(m)} (${latexEscape(m.unit)}) ${m.direction === 'lower' ? '$\\downarrow$' : '$\\uparrow$'}`)].join(' & ') + ' \\\\',
+        '\\midrule',
+    ];
+
+    networkIds.forEach((networkId, i) => {
+        const group = entries.filter(e => e.network === networkId);
+        const best = new Map(metrics.map(m => {
+            const values = group.map(e => getMetricValue(e, m.id)).filter((v): v is number => v !== undefined);
+            const top = values.reduce((a, b) => isBetter(b, a, m) ? b : a, values[0]);
+            // Only a value that beats every other row is marked: not a tie, e.g. every win rate at 0, nor a lone value
+            return [m.id, values.length > 1 && values.filter(v => v === top).length === 1 ? top : undefined];
+        }));
+
+        group.forEach((entry, j) => {
+            const cells = metrics.map(m => {
+                const value = getMetricValue(entry, m.id);
+                if (value === undefined) return '--';
+                const summary = getMetricSummary(entry, m.id)!;
+                const text = value.toFixed(m.decimals);
+                const formatted = value === best.get(m.id) ? `\\textbf{${text}}` : text;
+                return summary.ci95 ? `${formatted} $\\pm$ ${(summary.ci95[1] - summary.mean).toFixed(m.decimals)}` : formatted;
+            });
+            const label = resolveAlgorithm(results, entry.algorithm)?.label ?? entry.algorithm;
+            lines.push([j === 0 ? latexEscape(networkName(networkId)) : '', latexEscape(label), ...cells].join(' & ') + ' \\\\');
+        });
+        if (i < networkIds.length - 1) lines.push('\\midrule');
+    });
+
+    lines.push('\\bottomrule', '\\end{tabular}', '\\end{table}');
+    return lines.join('\n') + '\n';
+};
+
+// --- SVG FIGURE ---
+
+const xmlEscape = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export interface SvgFigure {
+    svg: string;
+    width: number;
+    height: number;
+}
+
+export interface BarChartView {
+    mode: DistributionMode;
+    axisMode: AxisMode;
+    baseline: string; // Algorithm the delta mode compares against
+}
+
+/** Standalone horizontal bar chart of one metric, mirroring ResultsBarChart and its axis. */
+export const toBarChartSvg = (results: ResultsFile, entries: ResultEntry[], metric: MetricInfo, title: string, view: BarChartView): SvgFigure => {
+    const width = 720;
+    const labelWidth = 160;
+    const valueWidth = 130;
+    const barHeight = 24;
+    const gap = 10;
+    const top = 56;
+    const plotWidth = width - labelWidth - valueWidth - 24;
+
+    const shown = entries.filter(e => getMetricValue(e, metric.id) !== undefined);
+    const { mode, reference, toAxis, axis } = barScale(results, shown, metric, view.axisMode, view.baseline);
+    const rows = shown.map(entry => ({
+        entry,
+        algorithm: resolveAlgorithm(results, entry.algorithm),
+        summary: getMetricSummary(entry, metric.id)!,
+        seeds: entry.metrics[metric.id].seeds ?? [],
+    }));
+    const px = (t: number) => labelWidth + (percentOf(axis, t) / 100) * plotWidth;
+    const x = (v: number) => px(toAxis(v));
+    const origin = px(axis.origin);
+    const plotBottom = top + rows.length * (barHeight + gap) - gap;
+    const height = plotBottom + 56;
+
+    const body = rows.map((r, i) => {
+        const y = top + i * (barHeight + gap);
+        const mid = y + barHeight / 2;
+        const end = x(r.summary.mean);
+        const color = r.algorithm?.hex ?? '#cbd5e1';
+        const parts = [
+            `<text x="${labelWidth - 12}" y="${mid + 4}" text-anchor="end" font-size="12" fill="#475569">${xmlEscape(r.algorithm?.label ?? r.entry.algorithm)}</text>`,
+            `<rect x="${labelWidth}" y="${y}" width="${plotWidth}" height="${barHeight}" rx="4" fill="#f1f5f9"/>`,
+            ...axis.ticks.map(t => `<path d="M${px(t)} ${y}V${y + barHeight}" stroke="#ffffff"/>`),
+            `<rect x="${Math.min(origin, end)}" y="${y}" width="${Math.abs(end - origin)}" height="${barHeight}" fill="${color}"${view.mode === 'box' ? ' fill-opacity="0.25"' : ''}/>`,
+        ];
+        if (reference) {
+            parts.push(`<path d="M${x(reference.value)} ${y}V${y + barHeight}" stroke="#334155" stroke-width="2" stroke-dasharray="4 3"/>`);
+        }
+        if (axis.origin === 0 && axis.min < 0) {
+            parts.push(`<path d="M${origin} ${y}V${y + barHeight}" stroke="#64748b" stroke-width="2"/>`);
+        }
+        if (view.mode === 'ci' && r.summary.ci95) {
+            const [lo, hi] = r.summary.ci95.map(x);
+            parts.push(`<path d="M${lo} ${mid}H${hi}M${lo} ${mid - 6}V${mid + 6}M${hi} ${mid - 6}V${mid + 6}" stroke="#0f172a" stroke-width="1.5" fill="none"/>`);
+        }
+        if (view.mode === 'box' && r.summary.n > 1) {
+            const [q1, q3] = [x(r.summary.q1), x(r.summary.q3)];
+            parts.push(
+                `<path d="M${x(r.summary.min)} ${mid}H${x(r.summary.max)}" stroke="#64748b"/>`,
+                `<rect x="${Math.min(q1, q3)}" y="${y + 6}" width="${Math.abs(q3 - q1)}" height="${barHeight - 12}" rx="1" fill="#ffffff" stroke="#475569"/>`,
+                `<path d="M${x(r.summary.median)} ${y + 4}V${y + barHeight - 4}" stroke="#0f172a" stroke-width="2"/>`,
+            );
+        }
+        if (view.mode === 'box') {
+            r.seeds.forEach((v, j) => parts.push(`<circle cx="${x(v)}" cy="${mid + ((j % 3) - 1) * 5}" r="3" fill="${color}" stroke="#ffffff"/>`));
+        }
+        const delta = mode === 'delta' ? toAxis(r.summary.mean) : undefined;
+        const value = formatMetricValue(r.summary.mean, metric)
+            + (r.summary.ci95 ? ` ± ${(r.summary.ci95[1] - r.summary.mean).toFixed(metric.decimals)}` : '')
+            + (delta !== undefined ? ` (${delta > 0 ? '+' : ''}${delta.toFixed(1)}%)` : '');
+        parts.push(`<text x="${width - 12}" y="${mid + 4}" text-anchor="end" font-size="12" font-family="JetBrains Mono, monospace" fill="#0f172a">${xmlEscape(value)}</text>`);
+        return parts.join('');
+    }).join('\n  ');
+
+    // Tick labels under the tracks, as in AxisScale
+    const signed = axis.min < 0 && axis.max > 0;
+    const ticks = axis.ticks.map(t =>
+        `<path d="M${px(t)} ${plotBottom + 6}v5" stroke="#cbd5e1"/><text x="${px(t)}" y="${plotBottom + 24}" text-anchor="middle" font-size="10" font-family="JetBrains Mono, monospace" fill="#94a3b8">${xmlEscape(`${signed && t > 0 ? '+' : ''}${t.toFixed(axis.decimals)}${axis.suffix}`)}</text>`,
+    ).join('');
+    const axisLabel = axis.label + (axis.broken ? ` · axis starts at ${axis.min.toFixed(axis.decimals)}${axis.suffix}` : '')
+        + (reference ? ` · dashed: ${reference.label} ${formatMetricValue(reference.value, metric)}` : '');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Inter, sans-serif">
+  <rect width="100%" height="100%" fill="#ffffff"/>
+  <text x="${labelWidth}" y="24" font-size="16" font-weight="700" fill="#0f172a">${xmlEscape(title)}</text>
+  <text x="${labelWidth}" y="42" font-size="11" fill="#64748b">${xmlEscape(`${metric.label} (${metric.unit}), ${metric.direction} is better · ${results.release}`)}</text>
+  ${body}
+  <path d="M${labelWidth} ${plotBottom + 6}H${labelWidth + plotWidth}" stroke="#cbd5e1"/>${axis.broken ? `<text x="${labelWidth}" y="${plotBottom + 10}" text-anchor="middle" font-size="14" fill="#64748b">≈</text>` : ''}${ticks}
+  <text x="${labelWidth + plotWidth / 2}" y="${plotBottom + 44}" text-anchor="middle" font-size="10" fill="#64748b">${xmlEscape(axisLabel)}</text>
+</svg>
+`;
+    return { svg, width, height };
+};
+
+/** Rasterize an SVG figure in the browser. */
+export const svgToPng = ({ svg, width, height }: SvgFigure, scale = 2): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = width * scale;
+            canvas.height = height * scale;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                URL.revokeObjectURL(url);
+                reject(new Error('Canvas 2D context is not available'));
+                return;
+            }
+            ctx.scale(scale, scale);
+            ctx.drawImage(img, 0, 0, width, height);
+            URL.revokeObjectURL(url);
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Could not render SVG'));
+        };
+        img.src = url;
+    });
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (filename: string, text: string, mime: string) =>
+    downloadBlob(filename, new Blob([text], { type: `${mime};charset=utf-8` }));
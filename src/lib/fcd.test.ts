@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DOMParser } from 'linkedom';
+import { FcdTrace, frameAt, parseFcdFile, parseFcdJson, parseFcdXml, sampleTrace, vehicleKind } from './fcd';
+
+// Node has no DOMParser; the parser only needs the standard XML DOM
+Object.assign(globalThis, { DOMParser });
+
+const positions = (trace: FcdTrace, time: number) => {
+    const seen: number[][] = [];
+    sampleTrace(trace, time, (vehicle, x, y, angle, speed) => seen.push([vehicle, x, y, angle, speed]));
+    return seen;
+};
+
+test('fcd-output XML is read into sorted frames', () => {
+    const trace = parseFcdXml(`<fcd-export>
+        <timestep time="1.00">
+            <vehicle id="h1" type="DEFAULT_VEHTYPE" x="10" y="0" angle="90" speed="5"/>
+            <vehicle id="cav_1" x="1" y="2" angle="0" speed="3"/>
+            <person id="p" x="9" y="9"/>
+        </timestep>
+        <timestep time="0.00">
+            <vehicle id="h1" type="DEFAULT_VEHTYPE" x="0" y="0" angle="90" speed="4"/>
+        </timestep>
+    </fcd-export>`);
+    assert.deepEqual(trace.vehicles, [{ id: 'h1', kind: 'human' }, { id: 'cav_1', kind: 'cav' }]);
+    assert.deepEqual(trace.frames.map(f => [f.time, Array.from(f.data)]), [
+        [0, [0, 0, 0, 90, 4]],
+        [1, [0, 10, 0, 90, 5, 1, 1, 2, 0, 3]],
+    ]);
+    assert.deepEqual(trace.bounds, { minX: 0, minY: 0, maxX: 10, maxY: 2 });
+    assert.equal(trace.maxActive, 2);
+});
+
+test('replay JSON frames follow start and step', () => {
+    const trace = parseFcdFile(JSON.stringify({
+        vehicles: [{ id: 'a', kind: 'human' }, { id: 'b', kind: 'cav' }],
+        start: 100,
+        step: 2,
+        frames: [[1, 5, 5, 0, 1, 0, 0, 0, 0, 2], [0, 4, 0, 0, 2]],
+    }));
+    assert.deepEqual(trace.frames.map(f => f.time), [100, 102]);
+    assert.deepEqual(Array.from(trace.frames[0].data), [0, 0, 0, 0, 2, 1, 5, 5, 0, 1]);
+});
+
+test('malformed files are rejected with a reason', () => {
+    assert.throws(() => parseFcdXml('<net/>'), /expected <fcd-export>/);
+    assert.throws(() => parseFcdXml('<fcd-export/>'), /no timesteps/);
+    assert.throws(() => parseFcdJson({ vehicles: [{ kind: 'bus' }], frames: [] }), /vehicles\[0\]: kind must be "human" or "cav"/);
+    assert.throws(() => parseFcdJson({ vehicles: [{ kind: 'cav' }], frames: [[0, 1, 2, 3]] }), /frames\[0\]: expected numbers in groups of 5/);
+    assert.throws(() => parseFcdJson({ vehicles: [{ kind: 'cav' }], frames: [[1, 0, 0, 0, 0]] }), /frames\[0\]: vehicle 1 is not in "vehicles"/);
+});
+
+test('CAVs are told apart by type or id', () => {
+    assert.equal(vehicleKind('cav', 'x'), 'cav');
+    assert.equal(vehicleKind('DEFAULT_VEHTYPE', 'rl_agent_3'), 'cav');
+    assert.equal(vehicleKind('passenger', 'caravan_1'), 'human');
+});
+
+test('playback interpolates between frames and clamps to the trace', () => {
+    const trace = parseFcdJson({
+        vehicles: [{ kind: 'human' }, { kind: 'cav' }],
+        frames: [[0, 0, 0, 350, 0, 1, 5, 5, 0, 1], [0, 10, 20, 10, 4]],
+    });
+    assert.equal(frameAt(trace, -5), 0);
+    assert.equal(frameAt(trace, 0.5), 0);
+    assert.equal(frameAt(trace, 9), 1);
+    // Headings turn the short way round, through north
+    assert.deepEqual(positions(trace, 0.5), [[0, 5, 10, 360, 2], [1, 5, 5, 0, 1]]);
+    assert.deepEqual(positions(trace, 3), [[0, 10, 20, 10, 4]]);
+});
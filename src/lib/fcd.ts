@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Bounds, boundsOf } from './sumoNetwork';
+
+// --- FLOATING CAR DATA ---
+// Recorded vehicle positions for replaying an episode, from either of:
+//
+//   SUMO fcd-output XML: <fcd-export><timestep time="…"><vehicle id x y angle speed type/>…
+//                        Vehicles whose type or id names a CAV ("cav", "av", "autonomous",
+//                        "machine", "rl") are drawn as CAVs, all others as humans.
+//   URB replay JSON:     the same data without the XML overhead, with explicit kinds:
+//                        { "vehicles": [{ "id": "v0", "kind": "cav" }, …],
+//                          "start": 0, "step": 1,
+//                          "frames": [[vehicle, x, y, angle, speed, vehicle, x, …], …] }
+//                        where vehicle indexes `vehicles` and frame i is at start + i·step.
+//
+// Positions are in network metres, angles in degrees clockwise from north (SUMO's convention).
+
+export type VehicleKind = 'human' | 'cav';
+
+export interface FcdVehicle {
+    id: string;
+    kind: VehicleKind;
+}
+
+export interface FcdFrame {
+    time: number; // s
+    data: Float64Array; // [vehicle, x, y, angle, speed] per vehicle, sorted by vehicle
+}
+
+export interface FcdTrace {
+    vehicles: FcdVehicle[];
+    frames: FcdFrame[]; // Sorted by time
+    bounds: Bounds;
+    maxActive: number; // Most vehicles in a single frame
+}
+
+export const FRAME_STRIDE = 5;
+
+const CAV_PATTERN = /(^|[^a-z])(c?av|autonomous|machine|rl)([^a-z]|$)/i;
+
+export const vehicleKind = (type: string, id: string): VehicleKind =>
+    CAV_PATTERN.test(type) || CAV_PATTERN.test(id) ? 'cav' : 'human';
+
+/** Sorts each frame by vehicle and derives the bounds, shared by both formats. */
+const buildTrace = (vehicles: FcdVehicle[], frames: { time: number, rows: number[][] }[]): FcdTrace => {
+    if (frames.length === 0) throw new Error('The file has no timesteps');
+    const points: [number, number][] = [];
+    const built = frames
+        .map(({ time, rows }) => {
+            rows.sort((a, b) => a[0] - b[0]);
+            rows.forEach(r => points.push([r[1], r[2]]));
+            return { time, data: Float64Array.from(rows.flat()) };
+        })
+        .sort((a, b) => a.time - b.time);
+    if (points.length === 0) throw new Error('The file has no vehicle positions');
+    return {
+        vehicles,
+        frames: built,
+        bounds: boundsOf(points),
+        maxActive: built.reduce((m, f) => Math.max(m, f.data.length / FRAME_STRIDE), 0),
+    };
+};
+
+export const parseFcdXml = (xml: string): FcdTrace => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const error = doc.querySelector('parsererror');
+    if (error) throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0] ?? 'parse error'}`);
+    if (doc.documentElement.tagName !== 'fcd-export') throw new Error(`Not a SUMO fcd-output file: root element is <${doc.documentElement.tagName}>, expected <fcd-export>`);
+
+    const vehicles: FcdVehicle[] = [];
+    const index = new Map<string, number>();
+    const frames = Array.from(doc.documentElement.children).filter(el => el.tagName === 'timestep').map(step => {
+        const time = Number(step.getAttribute('time'));
+        if (!Number.isFinite(time)) throw new Error(`<timestep> with invalid time "${step.getAttribute('time')}"`);
+        // Persons and containers share the timestep but are not vehicles
+        const rows = Array.from(step.children).filter(el => el.tagName === 'vehicle').map(el => {
+            const id = el.getAttribute('id') ?? '';
+            let v = index.get(id);
+            if (v === undefined) {
+                v = vehicles.push({ id, kind: vehicleKind(el.getAttribute('type') ?? '', id) }) - 1;
+                index.set(id, v);
+            }
+            const row = [v, ...['x', 'y', 'angle', 'speed'].map(name => Number(el.getAttribute(name) ?? 0))];
+            if (!row.every(Number.isFinite)) throw new Error(`vehicle "${id}" at ${time} s: invalid position`);
+            return row;
+        });
+        return { time, rows };
+    });
+    return buildTrace(vehicles, frames);
+};
+
+export const parseFcdJson = (input: unknown): FcdTrace => {
+    const json = input as { vehicles?: unknown, start?: unknown, step?: unknown, frames?: unknown };
+    if (!json || !Array.isArray(json.vehicles) || !Array.isArray(json.frames)) throw new Error('Expected an object with "vehicles" and "frames" arrays');
+    const start = json.start === undefined ? 0 : Number(json.start);
+    const step = json.step === undefined ? 1 : Number(json.step);
+    if (!Number.isFinite(start) || !(step > 0)) throw new Error('"start" must be a number and "step" a positive number');
+
+    const vehicles = json.vehicles.map((v: { id?: unknown, kind?: unknown }, i): FcdVehicle => {
+        if (v.kind !== 'human' && v.kind !== 'cav') throw new Error(`vehicles[${i}]: kind must be "human" or "cav"`);
+        return { id: String(v.id ?? i), kind: v.kind };
+    });
+    const frames = json.frames.map((frame: unknown, i) => {
+        if (!Array.isArray(frame) || frame.length % FRAME_STRIDE !== 0 || !frame.every(n => typeof n === 'number' && Number.isFinite(n))) {
+            throw new Error(`frames[${i}]: expected numbers in groups of ${FRAME_STRIDE} (vehicle, x, y, angle, speed)`);
+        }
+        const rows = Array.from({ length: frame.length / FRAME_STRIDE }, (_, r) => frame.slice(r * FRAME_STRIDE, (r + 1) * FRAME_STRIDE) as number[]);
+        const unknown = rows.find(r => !Number.isInteger(r[0]) || r[0] < 0 || r[0] >= vehicles.length);
+        if (unknown) throw new Error(`frames[${i}]: vehicle ${unknown[0]} is not in "vehicles"`);
+        return { time: start + i * step, rows };
+    });
+    return buildTrace(vehicles, frames);
+};
+
+/** Parse an fcd-output XML or URB replay JSON file, picked by its content rather than its name. */
+export const parseFcdFile = (text: string): FcdTrace =>
+    text.trimStart().startsWith('<') ? parseFcdXml(text) : parseFcdJson(JSON.parse(text));
+
+// --- PLAYBACK ---
+
+export const traceStart = (trace: FcdTrace) => trace.frames[0].time;
+
+export const traceEnd = (trace: FcdTrace) => trace.frames[trace.frames.length - 1].time;
+
+/** Index of the last frame at or before `time`, clamped to the trace. */
+export const frameAt = (trace: FcdTrace, time: number) => {
+    let lo = 0, hi = trace.frames.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (trace.frames[mid].time <= time) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo;
+};
+
+/** Shortest way round from one heading to another, in degrees. */
+const angleDelta = (from: number, to: number) => ((to - from + 540) % 360) - 180;
+
+/**
+ * Calls `visit` for every vehicle on the road at `time`. Vehicles recorded in both
+ * surrounding frames are interpolated; the others are shown where they were last seen.
+ * Allocation-free, so it can run every animation frame.
+ */
+export const sampleTrace = (trace: FcdTrace, time: number, visit: (vehicle: number, x: number, y: number, angle: number, speed: number) => void) => {
+    const k = frameAt(trace, time);
+    const a = trace.frames[k];
+    const b = trace.frames[k + 1];
+    const t = b ? Math.min(Math.max((time - a.time) / (b.time - a.time), 0), 1) : 0;
+    let j = 0;
+    for (let i = 0; i < a.data.length; i += FRAME_STRIDE) {
+        const vehicle = a.data[i];
+        // Both frames are sorted by vehicle, so the partner is found by walking forward
+        while (b && j < b.data.length && b.data[j] < vehicle) j += FRAME_STRIDE;
+        if (b && j < b.data.length && b.data[j] === vehicle) {
+            visit(
+                vehicle,
+                a.data[i + 1] + (b.data[j + 1] - a.data[i + 1]) * t,
+                a.data[i + 2] + (b.data[j + 2] - a.data[i + 2]) * t,
+                a.data[i + 3] + angleDelta(a.data[i + 3], b.data[j + 3]) * t,
+                a.data[i + 4] + (b.data[j + 4] - a.data[i + 4]) * t,
+            );
+        } else {
+            visit(vehicle, a.data[i + 1], a.data[i + 2], a.data[i + 3], a.data[i + 4]);
+        }
+    }
+};
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createRandom, randomInt, resample } from './random';
+
+const draw = (seed: number, n: number) => {
+    const random = createRandom(seed);
+    return Array.from({ length: n }, () => random());
+};
+
+test('the same seed gives the same sequence', () => {
+    assert.deepEqual(draw(2025, 100), draw(2025, 100));
+    assert.notDeepEqual(draw(2025, 100), draw(2026, 100));
+});
+
+test('values are uniform in [0, 1)', () => {
+    const values = draw(7, 10_000);
+    assert.ok(values.every(v => v >= 0 && v < 1));
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    assert.ok(Math.abs(mean - 0.5) < 0.02, `mean ${mean}`);
+});
+
+test('resampling draws only from the input, reproducibly', () => {
+    const values = ['a', 'b', 'c', 'd'];
+    const sample = resample(createRandom(1), values);
+    assert.equal(sample.length, values.length);
+    assert.ok(sample.every(v => values.includes(v)));
+    assert.deepEqual(resample(createRandom(1), values), sample);
+    const random = createRandom(3);
+    assert.ok(Array.from({ length: 1000 }, () => randomInt(random, 6)).every(i => Number.isInteger(i) && i >= 0 && i < 6));
+});
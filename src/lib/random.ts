@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- SEEDED RANDOM NUMBERS ---
+// Math.random cannot be seeded; anything that must come out the same on every
+// load (bootstrap CIs, generated scenes) draws from here instead.
+
+export type Random = () => number; // Uniform in [0, 1)
+
+/** mulberry32: small, fast and good enough for sampling and visuals. */
+export const createRandom = (seed: number): Random => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/** Integer in [0, n). */
+export const randomInt = (random: Random, n: number) => Math.floor(random() * n);
+
+/** Draw values.length items with replacement. */
+export const resample = <T>(random: Random, values: T[]): T[] =>
+    values.map(() => values[randomInt(random, values.length)]);
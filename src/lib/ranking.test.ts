@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { getMetric } from '../data/metrics';
+import { ResultsFile } from '../data/results';
+import { normalizeScores, rankAlgorithms } from './ranking';
+
+const T_CAV = getMetric('t_cav')!;
+
+const entry = (network: string, algorithm: string, metric: string, value: number, seeds?: number[]) =>
+    ({ network, algorithm, metrics: { [metric]: { value, unit: 'min', ...(seeds && { seeds }) } } });
+
+// Human drivers report t_pre, as in the published results; random routing anchors the other end
+const RESULTS: ResultsFile = {
+    schemaVersion: 3,
+    release: 'test',
+    source: 'unit test',
+    networks: {},
+    entries: [
+        entry('provins', 'human', 't_pre', 10),
+        entry('provins', 'random', 't_cav', 20),
+        entry('provins', 'qmix', 't_cav', 13, [12, 14]),
+        entry('provins', 'ippo', 't_cav', 17, [16, 18]),
+        entry('ingolstadt', 'human', 't_pre', 20),
+        entry('ingolstadt', 'random', 't_cav', 40),
+        entry('ingolstadt', 'qmix', 't_cav', 26),
+        entry('ingolstadt', 'ippo', 't_cav', 30),
+        // No spread between the anchors, so nothing can be normalized here
+        entry('saint_arnoult', 'human', 't_pre', 5),
+        entry('saint_arnoult', 'random', 't_cav', 5),
+        entry('saint_arnoult', 'qmix', 't_cav', 4),
+    ],
+};
+
+test('scores put random routing at 0 and human drivers at 1', () => {
+    const { networks, scores } = normalizeScores(RESULTS, T_CAV);
+    assert.deepEqual(networks, ['provins', 'ingolstadt']);
+    assert.deepEqual(scores.get('qmix')?.get('provins'), [0.8, 0.6]);
+    assert.deepEqual(scores.get('ippo')?.get('ingolstadt'), [0.5]);
+    assert.equal(scores.get('qmix')?.has('saint_arnoult'), false);
+    assert.equal(scores.has('human'), false);
+});
+
+test('the better algorithm ranks first, with intervals around the estimates', () => {
+    const { rows, improvement } = rankAlgorithms(RESULTS, T_CAV, 200);
+    assert.deepEqual(rows.map(r => r.algorithm), ['qmix', 'ippo']);
+    const [qmix, ippo] = rows;
+    assert.ok(Math.abs(qmix.meanScore.estimate - 0.7) < 1e-9);
+    assert.ok(Math.abs(ippo.meanScore.estimate - 0.4) < 1e-9);
+    assert.equal(qmix.averageRank.estimate, 1);
+    assert.equal(qmix.networks, 2);
+    rows.forEach(r => assert.ok(r.meanScore.ci95[0] <= r.meanScore.estimate && r.meanScore.estimate <= r.meanScore.ci95[1]));
+    assert.equal(improvement.qmix.ippo.estimate, 1);
+    assert.equal(improvement.ippo.qmix.estimate, 0);
+});
+
+test('the bootstrap is seeded, so intervals are the same on every run', () => {
+    assert.deepEqual(rankAlgorithms(RESULTS, T_CAV, 200), rankAlgorithms(RESULTS, T_CAV, 200));
+});
+
+test('metrics the anchors do not report give an empty ranking', () => {
+    const ranking = rankAlgorithms(RESULTS, getMetric('dt_hdv')!, 10);
+    assert.deepEqual(ranking, { networks: [], rows: [], improvement: {} });
+});
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MetricInfo } from '../data/metrics';
+import { HUMAN_BASELINE, RANDOM_BASELINE, ResultsFile, algorithmOrder, getReferenceResult, getResultNetworks } from '../data/results';
+import { createRandom, resample } from './random';
+import { mean, quantile } from './stats';
+
+// --- CROSS-NETWORK RANKING ---
+// Each network's metric is rescaled so that random routing scores 0 and human
+// drivers score 1, which makes networks of very different size comparable.
+// Aggregates follow the stratified bootstrap used by rliable (Agarwal et al., 2021):
+// networks and, within each network, seeds are resampled with replacement.
+
+export interface Interval {
+    estimate: number;
+    ci95: [number, number];
+}
+
+export interface AlgorithmRanking {
+    algorithm: string;
+    networks: number; // Networks the algorithm was scored on
+    meanScore: Interval; // Mean normalized score, 1 = human level
+    averageRank: Interval; // 1 = best on every network
+}
+
+export interface Ranking {
+    networks: string[]; // Networks where both anchors report the metric
+    rows: AlgorithmRanking[]; // Sorted by mean normalized score
+    improvement: Record<string, Record<string, Interval>>; // improvement[x][y] = P(x beats y)
+}
+
+// Per-seed normalized scores, by algorithm then network
+type Scores = Map<string, Map<string, number[]>>;
+
+const BOOTSTRAP_SAMPLES = 2000;
+const BOOTSTRAP_SEED = 2025;
+
+/** Normalized per-seed scores; algorithms missing a network are left out there. */
+export const normalizeScores = (results: ResultsFile, metric: MetricInfo): { networks: string[], scores: Scores } => {
+    const anchor = (network: string, algorithm: string) => {
+        const entry = results.entries.find(e => e.network === network && e.algorithm === algorithm);
+        return entry && getReferenceResult(entry, metric.id)?.result.value;
+    };
+
+    const networks = getResultNetworks(results).filter(id => {
+        const human = anchor(id, HUMAN_BASELINE);
+        const random = anchor(id, RANDOM_BASELINE);
+        return human !== undefined && random !== undefined && human !== random;
+    });
+
+    const scores: Scores = new Map();
+    results.entries
+        .filter(e => e.algorithm !== HUMAN_BASELINE && e.algorithm !== RANDOM_BASELINE && networks.includes(e.network) && e.metrics[metric.id])
+        .forEach(e => {
+            const human = anchor(e.network, HUMAN_BASELINE)!;
+            const random = anchor(e.network, RANDOM_BASELINE)!;
+            const m = e.metrics[metric.id];
+            const values = m.seeds && m.seeds.length > 0 ? m.seeds : [m.value];
+            if (!scores.has(e.algorithm)) scores.set(e.algorithm, new Map());
+            scores.get(e.algorithm)!.set(e.network, values.map(v => (v - random) / (human - random)));
+        });
+    return { networks, scores };
+};
+
+/** P(a random run of x scores above a random run of y), ties count half. */
+const probabilityOfImprovement = (x: number[], y: number[]) => {
+    let wins = 0;
+    x.forEach(a => y.forEach(b => { wins += a > b ? 1 : a === b ? 0.5 : 0; }));
+    return wins / (x.length * y.length);
+};
+
+/** Ranks of the values, 1 = highest; ties share their average rank. */
+const ranksOf = (values: number[]) =>
+    values.map(v => 1 + values.filter(w => w > v).length + (values.filter(w => w === v).length - 1) / 2);
+
+interface PointEstimates {
+    meanScore: Map<string, number>;
+    averageRank: Map<string, number>;
+    improvement: Map<string, number>; // Keyed "x/y"
+}
+
+// Networks may repeat in a bootstrap sample, so they are passed as a list of draws
+const estimate = (algorithms: string[], draws: Map<string, number[]>[]): PointEstimates => {
+    const perNetworkMean = draws.map(draw => new Map([...draw].map(([alg, values]) => [alg, mean(values)])));
+
+    const meanScore = new Map<string, number>();
+    const averageRank = new Map<string, number>();
+    const rankSums = new Map<string, number[]>();
+    perNetworkMean.forEach(means => {
+        const present = algorithms.filter(a => means.has(a));
+        const ranks = ranksOf(present.map(a => means.get(a)!));
+        present.forEach((a, i) => rankSums.set(a, [...(rankSums.get(a) ?? []), ranks[i]]));
+    });
+    algorithms.forEach(a => {
+        const values = perNetworkMean.filter(m => m.has(a)).map(m => m.get(a)!);
+        if (values.length > 0) meanScore.set(a, mean(values));
+        const ranks = rankSums.get(a);
+        if (ranks) averageRank.set(a, mean(ranks));
+    });
+
+    const improvement = new Map<string, number>();
+    algorithms.forEach(x => algorithms.forEach(y => {
+        if (x === y) return;
+        const shared = draws.filter(d => d.has(x) && d.has(y));
+        if (shared.length > 0) improvement.set(`${x}/${y}`, mean(shared.map(d => probabilityOfImprovement(d.get(x)!, d.get(y)!))));
+    }));
+
+    return { meanScore, averageRank, improvement };
+};
+
+const interval = (point: number, samples: number[]): Interval => {
+    const sorted = [...samples].sort((a, b) => a - b);
+    return { estimate: point, ci95: [quantile(sorted, 0.025), quantile(sorted, 0.975)] };
+};
+
+/** Rank every non-anchor algorithm across networks, with 95% bootstrap CIs. */
+export const rankAlgorithms = (results: ResultsFile, metric: MetricInfo, samples = BOOTSTRAP_SAMPLES): Ranking => {
+    const { networks, scores } = normalizeScores(results, metric);
+    const algorithms = [...scores.keys()].sort((a, b) => algorithmOrder(a) - algorithmOrder(b));
+    const byNetwork = networks.map(n => new Map(algorithms.filter(a => scores.get(a)!.has(n)).map(a => [a, scores.get(a)!.get(n)!])));
+
+    const point = estimate(algorithms, byNetwork);
+    const random = createRandom(BOOTSTRAP_SEED);
+    const boot = Array.from({ length: samples }, () =>
+        estimate(algorithms, resample(random, byNetwork).map(draw => new Map([...draw].map(([a, values]) => [a, resample(random, values)])))));
+
+    // An algorithm can drop out of a bootstrap sample when its networks were not drawn
+    const collect = (pick: (e: PointEstimates) => number | undefined) =>
+        boot.map(pick).filter((v): v is number => v !== undefined);
+
+    const rows = algorithms.map(a => ({
+        algorithm: a,
+        networks: scores.get(a)!.size,
+        meanScore: interval(point.meanScore.get(a)!, collect(e => e.meanScore.get(a))),
+        averageRank: interval(point.averageRank.get(a)!, collect(e => e.averageRank.get(a))),
+    })).sort((a, b) => b.meanScore.estimate - a.meanScore.estimate);
+
+    const improvement: Ranking['improvement'] = {};
+    algorithms.forEach(x => {
+        improvement[x] = {};
+        algorithms.forEach(y => {
+            const p = point.improvement.get(`${x}/${y}`);
+            if (p !== undefined) improvement[x][y] = interval(p, collect(e => e.improvement.get(`${x}/${y}`)));
+        });
+    });
+
+    return { networks, rows, improvement };
+};
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FAMILY_LABELS, getAlgorithm } from '../data/algorithms';
+import { getMetric } from '../data/metrics';
+import { AlgorithmDeclaration, RESULTS_SCHEMA_VERSION, ResultEntry, ResultsFile, resolveAlgorithm } from '../data/results';
+import { mean } from './stats';
+import { ValidationError, ValidationResult, validateResultsFile } from './validateResults';
+
+// --- COMPARE YOUR RUN ---
+// Local results are parsed and validated in the browser; nothing is sent anywhere.
+// Accepted inputs:
+//   JSON: a results file, or a bare array of entries (missing header fields are filled in)
+//   CSV:  one row per network/algorithm, or one row per seed with a "seed" column.
+//         Metric columns are named by id, optionally with the unit (t_cav or t_cav_min).
+//         Algorithms outside the registry need "family" (and optionally "algorithm_label") columns.
+//         The CSV export of this page can be read back as is.
+
+export const RUN_PREFIX = 'yours_';
+
+export const isRunAlgorithm = (id: string) => id.startsWith(RUN_PREFIX);
+
+const withDefaults = (input: unknown, name: string): unknown => {
+    const header = { schemaVersion: RESULTS_SCHEMA_VERSION, release: name, source: 'Local upload', networks: {} };
+    if (Array.isArray(input)) return { ...header, entries: input };
+    if (typeof input === 'object' && input !== null) return { ...header, ...input };
+    return input;
+};
+
+// --- CSV ---
+
+/** Split CSV text into rows, honouring quoted cells. */
+export const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+/** Metric id of a column header such as "t_cav", "t_cav_min" or "win_rate_pct"; std and n columns are skipped. */
+const metricColumn = (header: string) => {
+    const metric = getMetric(header);
+    if (metric) return metric;
+    const match = header.match(/^(.+)_([^_]+)$/);
+    const base = match && getMetric(match[1]);
+    if (!base) return undefined;
+    return match[2] === (base.unit === '%' ? 'pct' : base.unit) ? base : undefined;
+};
+
+/** Build an unvalidated results file from CSV; errors cover what the schema validator cannot see. */
+const csvToResults = (text: string, name: string): { input?: unknown, errors: ValidationError[] } => {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) return { errors: [{ path: '(root)', message: 'the CSV file is empty' }] };
+    const columns = header.map(h => h.trim().toLowerCase());
+    const col = (key: string) => columns.indexOf(key);
+
+    const missing = ['network', 'algorithm'].filter(key => col(key) === -1);
+    if (missing.length > 0) {
+        return { errors: [{ path: 'header', message: `missing column${missing.length > 1 ? 's' : ''} ${missing.join(', ')}` }] };
+    }
+    const metricColumns = columns
+        .map((c, i) => ({ metric: metricColumn(c), index: i }))
+        .filter((m): m is { metric: NonNullable<typeof m.metric>, index: number } => m.metric !== undefined);
+
+    // Collect values per network/algorithm, one per seed row
+    const groups = new Map<string, { network: string, algorithm: string, values: Map<string, number[]> }>();
+    const algorithms: Record<string, AlgorithmDeclaration> = {};
+    const errors: ValidationError[] = [];
+    const perSeed = col('seed') !== -1;
+
+    rows.forEach((row, i) => {
+        const path = `row ${i + 2}`;
+        const network = row[col('network')]?.trim() ?? '';
+        const algorithm = row[col('algorithm')]?.trim() ?? '';
+        const key = `${network}/${algorithm}`;
+        if (groups.has(key) && !perSeed) {
+            errors.push({ path, message: `duplicate row for ${key}; add a seed column to give one row per seed` });
+            return;
+        }
+        if (!groups.has(key)) groups.set(key, { network, algorithm, values: new Map() });
+        const group = groups.get(key)!;
+
+        metricColumns.forEach(({ metric, index }) => {
+            const cell = row[index]?.trim();
+            if (!cell) return;
+            const value = Number(cell);
+            if (!Number.isFinite(value)) {
+                errors.push({ path: `${path}.${columns[index]}`, message: `must be a number, got "${cell}"` });
+                return;
+            }
+            group.values.set(metric.id, [...(group.values.get(metric.id) ?? []), value]);
+        });
+
+        if (algorithm && !getAlgorithm(algorithm) && !algorithms[algorithm]) {
+            const family = col('family') !== -1 ? row[col('family')]?.trim() : undefined;
+            if (!family) {
+                errors.push({ path: `${path}.algorithm`, message: `unknown algorithm "${algorithm}"; add a family column (${Object.keys(FAMILY_LABELS).join(', ')})` });
+                return;
+            }
+            const label = col('algorithm_label') !== -1 ? row[col('algorithm_label')]?.trim() : undefined;
+            algorithms[algorithm] = { label: label || algorithm, family: family as AlgorithmDeclaration['family'] };
+        }
+    });
+    if (errors.length > 0) return { errors };
+
+    const entries: ResultEntry[] = [...groups.values()].map(({ network, algorithm, values }) => ({
+        network,
+        algorithm,
+        metrics: Object.fromEntries([...values].map(([id, seeds]) => [id, {
+            value: mean(seeds),
+            unit: getMetric(id)!.unit,
+            ...(perSeed && { seeds }),
+        }])),
+    }));
+
+    return { input: withDefaults({ ...(Object.keys(algorithms).length > 0 && { algorithms }), entries }, name), errors: [] };
+};
+
+// --- ENTRY POINT ---
+
+/** Parse and validate a local JSON or CSV results file. */
+export const parseRunFile = (name: string, text: string): ValidationResult => {
+    const isJson = name.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+    let input: unknown;
+    if (isJson) {
+        try {
+            input = withDefaults(JSON.parse(text), name);
+        } catch (err) {
+            return { valid: false, errors: [{ path: '(root)', message: `not valid JSON: ${err instanceof Error ? err.message : String(err)}` }] };
+        }
+    } else {
+        const csv = csvToResults(text, name);
+        if (csv.errors.length > 0) return { valid: false, errors: csv.errors };
+        input = csv.input;
+    }
+    return validateResultsFile(input);
+};
+
+/**
+ * Add a run to the published results. Its algorithms are renamed with RUN_PREFIX
+ * and labelled "(yours)", so they sit next to the official entries without clashing.
+ */
+export const mergeRun = (results: ResultsFile, run: ResultsFile): ResultsFile => {
+    const declarations = Object.fromEntries([...new Set(run.entries.map(e => e.algorithm))].map(id => {
+        const algorithm = resolveAlgorithm(run, id)!;
+        return [`${RUN_PREFIX}${id}`, { label: `${algorithm.label} (yours)`, family: algorithm.family }];
+    }));
+
+    return {
+        ...results,
+        algorithms: { ...results.algorithms, ...declarations },
+        entries: [...results.entries, ...run.entries.map(e => ({ ...e, algorithm: `${RUN_PREFIX}${e.algorithm}` }))],
+    };
+};
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Bounds, Point, SumoNetwork } from './sumoNetwork';
+
+// --- SCENE GRAPH ---
+// A SUMO network as the 3D scenes draw it: the XZ ground plane, centred on the origin
+// and scaled to fit a square of ±extent. North points to -z, so the default camera
+// sees the same orientation as the 2D map.
+
+export interface SceneGraph {
+    points: Point[]; // [x, z]
+    adjacency: number[][]; // Directed: vehicles only drive the way the edge goes
+    sites: Point[]; // Junctions, where the scenes put buildings
+}
+
+/** Scene units per network metre. */
+export const sceneScale = (bounds: Bounds, extent: number) =>
+    (2 * extent) / Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 1);
+
+/** Network metres to scene [x, z]. */
+export const sceneProjection = (bounds: Bounds, extent: number) => {
+    const scale = sceneScale(bounds, extent);
+    const cx = (bounds.minX + bounds.maxX) / 2;
+    const cy = (bounds.minY + bounds.maxY) / 2;
+    return ([x, y]: Point): Point => [(x - cx) * scale, -(y - cy) * scale];
+};
+
+/**
+ * Every edge becomes a chain of segments along its shape, from the centre of its
+ * start junction to the centre of its end junction, so consecutive edges connect.
+ * Points closer than 1 cm in scene units are merged.
+ */
+export const networkSceneGraph = (network: SumoNetwork, extent: number): SceneGraph => {
+    const project = sceneProjection(network.bounds, extent);
+    const junctions = new Map(network.junctions.map(j => [j.id, [j.x, j.y] as Point]));
+    const points: Point[] = [];
+    const adjacency: number[][] = [];
+    const index = new Map<string, number>();
+
+    const nodeAt = (p: Point) => {
+        const key = `${p[0].toFixed(2)},${p[1].toFixed(2)}`;
+        let i = index.get(key);
+        if (i === undefined) {
+            i = points.push(p) - 1;
+            adjacency.push([]);
+            index.set(key, i);
+        }
+        return i;
+    };
+
+    network.edges.forEach(edge => {
+        const path = [junctions.get(edge.from), ...edge.shape, junctions.get(edge.to)]
+            .filter((p): p is Point => p !== undefined)
+            .map(p => nodeAt(project(p)));
+        path.slice(1).forEach((to, i) => {
+            const from = path[i];
+            if (from !== to && !adjacency[from].includes(to)) adjacency[from].push(to);
+        });
+    });
+
+    return { points, adjacency, sites: network.junctions.map(j => project([j.x, j.y])) };
+};
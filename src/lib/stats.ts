@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- DESCRIPTIVE STATISTICS ---
+
+export const mean = (values: number[]) =>
+    values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/** Sample standard deviation (n - 1); 0 for a single value. */
+export const std = (values: number[]) => {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+// Two-sided 95% critical values of Student's t, indexed by degrees of freedom
+const T_95 = [NaN, 12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086, 2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042];
+
+export const tCritical95 = (df: number) => df < T_95.length ? T_95[df] : 1.96;
+
+/** Linear-interpolated quantile of sorted values, q in [0, 1]. */
+export const quantile = (sorted: number[], q: number) => {
+    const pos = (sorted.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export interface Summary {
+    n: number;
+    mean: number;
+    std: number;
+    ci95: [number, number] | null; // null when there is a single value
+    min: number;
+    q1: number;
+    median: number;
+    q3: number;
+    max: number;
+}
+
+export const summarize = (values: number[]): Summary => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const n = values.length;
+    const m = mean(values);
+    const s = std(values);
+    const half = n > 1 ? tCritical95(n - 1) * s / Math.sqrt(n) : 0;
+
+    return {
+        n,
+        mean: m,
+        std: s,
+        ci95: n > 1 ? [m - half, m + half] : null,
+        min: sorted[0],
+        q1: quantile(sorted, 0.25),
+        median: quantile(sorted, 0.5),
+        q3: quantile(sorted, 0.75),
+        max: sorted[n - 1],
+    };
+};
+
+/** Least-squares line through the points; null with fewer than two distinct x values. */
+export const linearFit = (xs: number[], ys: number[]): { slope: number, intercept: number } | null => {
+    if (xs.length < 2 || new Set(xs).size < 2) return null;
+    const mx = mean(xs);
+    const my = mean(ys);
+    const sxy = xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0);
+    const sxx = xs.reduce((sum, x) => sum + (x - mx) ** 2, 0);
+    const slope = sxy / sxx;
+    return { slope, intercept: my - slope * mx };
+};
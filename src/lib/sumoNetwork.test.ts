@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DOMParser } from 'linkedom';
+import { networkStats, parseShape, parseSumoNetwork } from './sumoNetwork';
+
+// Node has no DOMParser; the parser only needs the standard XML DOM
+Object.assign(globalThis, { DOMParser });
+
+const NET = `<?xml version="1.0" encoding="UTF-8"?>
+<net version="1.20">
+    <edge id=":j2_0" function="internal">
+        <lane id=":j2_0_0" index="0" speed="8" length="4" shape="100,0 104,0"/>
+    </edge>
+    <edge id="a" from="j1" to="j2" priority="2" name="Rue A">
+        <lane id="a_1" index="1" speed="20" length="100" shape="0,3.2 100,3.2"/>
+        <lane id="a_0" index="0" speed="13.89" length="100" shape="0,0 100,0"/>
+    </edge>
+    <edge id="b" from="j2" to="j1" shape="100,-5,0 0,-5,0">
+        <lane id="b_0" index="0" speed="13.89" length="101.5" shape="100,-3 0,-3"/>
+    </edge>
+    <tlLogic id="j2" type="static" programID="0" offset="0"/>
+    <tlLogic id="j2" type="static" programID="1" offset="0"/>
+    <junction id="j1" type="priority" x="0" y="0" shape="-1,-1 1,1"/>
+    <junction id="j2" type="traffic_light" x="100" y="0"/>
+    <junction id=":j2_0_0" type="internal" x="102" y="0"/>
+</net>`;
+
+test('shapes parse to points, dropping z and junk', () => {
+    assert.deepEqual(parseShape('0,0 10.5,-2,3  x,1'), [[0, 0], [10.5, -2]]);
+    assert.deepEqual(parseShape(null), []);
+});
+
+test('drivable edges and junctions are read, internal ones skipped', () => {
+    const net = parseSumoNetwork(NET);
+    assert.deepEqual(net.edges.map(e => e.id), ['a', 'b']);
+    assert.deepEqual(net.junctions.map(j => j.id), ['j1', 'j2']);
+    assert.deepEqual(net.trafficLights, ['j2']);
+
+    const [a, b] = net.edges;
+    assert.deepEqual(a.lanes.map(l => l.id), ['a_0', 'a_1']);
+    assert.equal(a.speed, 20);
+    assert.equal(a.priority, 2);
+    assert.equal(a.name, 'Rue A');
+    // Without its own shape the edge follows its middle lane
+    assert.deepEqual(a.shape, [[0, 3.2], [100, 3.2]]);
+    assert.deepEqual(b.shape, [[100, -5], [0, -5]]);
+    assert.deepEqual(net.bounds, { minX: 0, minY: -5, maxX: 100, maxY: 3.2 });
+});
+
+test('stats count lanes, junction types and traffic light programs', () => {
+    assert.deepEqual(networkStats(parseSumoNetwork(NET)), {
+        nodes: 2,
+        edges: 2,
+        laneKm: 0.3015,
+        junctionTypes: { priority: 1, traffic_light: 1 },
+        trafficLights: 1,
+    });
+});
+
+test('other files and broken lanes are rejected with a reason', () => {
+    assert.throws(() => parseSumoNetwork('<routes/>'), /root element is <routes>, expected <net>/);
+    assert.throws(() => parseSumoNetwork('<net><edge id="a"><lane id="a_0" index="0" length="10"/></edge></net>'), /lane "a_0": missing or invalid speed/);
+    assert.throws(() => parseSumoNetwork('<net><junction id="j" type="priority" x="0" y="0"/></net>'), /no drivable edges/);
+});
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- SUMO NETWORKS ---
+// Parses the parts of a SUMO .net.xml the site draws: edges with their lanes,
+// junctions and traffic light programs. Coordinates are SUMO's projected metres,
+// with y pointing north. Junction-internal edges and pedestrian areas are skipped.
+
+export type Point = [number, number];
+
+export interface SumoLane {
+    id: string;
+    index: number;
+    speed: number; // m/s
+    length: number; // m
+    shape: Point[];
+}
+
+export interface SumoEdge {
+    id: string;
+    from: string;
+    to: string;
+    name?: string;
+    priority?: number;
+    lanes: SumoLane[];
+    speed: number; // Fastest lane, m/s
+    length: number; // m
+    shape: Point[]; // Edge centre line
+}
+
+export interface SumoJunction {
+    id: string;
+    type: string; // e.g. "priority", "traffic_light", "dead_end"
+    x: number;
+    y: number;
+    shape: Point[]; // May be empty
+}
+
+export interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export interface SumoNetwork {
+    edges: SumoEdge[];
+    junctions: SumoJunction[];
+    trafficLights: string[]; // tlLogic ids
+    bounds: Bounds;
+}
+
+const SKIPPED_FUNCTIONS = ['internal', 'crossing', 'walkingarea'];
+
+/** "x,y x,y ..." as used by every shape attribute; z values are dropped. */
+export const parseShape = (value: string | null): Point[] =>
+    (value ?? '').trim().split(/\s+/).filter(Boolean).map(pair => {
+        const [x, y] = pair.split(',').map(Number);
+        return [x, y] as Point;
+    }).filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y));
+
+const number = (el: Element, name: string) => {
+    const value = Number(el.getAttribute(name));
+    if (el.getAttribute(name) === null || !Number.isFinite(value)) throw new Error(`${el.tagName} "${el.getAttribute('id')}": missing or invalid ${name}`);
+    return value;
+};
+
+export const parseSumoNetwork = (xml: string): SumoNetwork => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const error = doc.querySelector('parsererror');
+    if (error) throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0] ?? 'parse error'}`);
+    if (doc.documentElement.tagName !== 'net') throw new Error(`Not a SUMO network: root element is <${doc.documentElement.tagName}>, expected <net>`);
+
+    const children = (tag: string) => Array.from(doc.documentElement.children).filter(el => el.tagName === tag);
+
+    const edges = children('edge')
+        .filter(el => !SKIPPED_FUNCTIONS.includes(el.getAttribute('function') ?? ''))
+        .map((el): SumoEdge => {
+            const lanes = Array.from(el.children).filter(l => l.tagName === 'lane').map(l => ({
+                id: l.getAttribute('id') ?? '',
+                index: number(l, 'index'),
+                speed: number(l, 'speed'),
+                length: number(l, 'length'),
+                shape: parseShape(l.getAttribute('shape')),
+            })).sort((a, b) => a.index - b.index);
+            if (lanes.length === 0) throw new Error(`edge "${el.getAttribute('id')}" has no lanes`);
+            const own = parseShape(el.getAttribute('shape'));
+            const priority = el.getAttribute('priority');
+            return {
+                id: el.getAttribute('id') ?? '',
+                from: el.getAttribute('from') ?? '',
+                to: el.getAttribute('to') ?? '',
+                name: el.getAttribute('name') ?? undefined,
+                priority: priority !== null ? Number(priority) : undefined,
+                lanes,
+                speed: Math.max(...lanes.map(l => l.speed)),
+                length: lanes[0].length,
+                // Without an explicit edge shape, the middle lane is close enough to the centre line
+                shape: own.length >= 2 ? own : lanes[Math.floor(lanes.length / 2)].shape,
+            };
+        });
+
+    const junctions = children('junction')
+        .filter(el => el.getAttribute('type') !== 'internal')
+        .map(el => ({
+            id: el.getAttribute('id') ?? '',
+            type: el.getAttribute('type') ?? 'unknown',
+            x: number(el, 'x'),
+            y: number(el, 'y'),
+            shape: parseShape(el.getAttribute('shape')),
+        }));
+
+    const trafficLights = [...new Set(children('tlLogic').map(el => el.getAttribute('id') ?? ''))];
+
+    if (edges.length === 0) throw new Error('The network has no drivable edges');
+    return { edges, junctions, trafficLights, bounds: boundsOf([...edges.flatMap(e => e.shape), ...junctions.map(j => [j.x, j.y] as Point)]) };
+};
+
+export const boundsOf = (points: Point[]): Bounds => points.reduce(
+    (b, [x, y]) => ({ minX: Math.min(b.minX, x), minY: Math.min(b.minY, y), maxX: Math.max(b.maxX, x), maxY: Math.max(b.maxY, y) }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity },
+);
+
+export interface NetworkStats {
+    nodes: number;
+    edges: number;
+    laneKm: number;
+    junctionTypes: Record<string, number>; // Most common first
+    trafficLights: number;
+}
+
+export const networkStats = (network: SumoNetwork): NetworkStats => {
+    const counts: Record<string, number> = {};
+    network.junctions.forEach(j => { counts[j.type] = (counts[j.type] ?? 0) + 1; });
+    return {
+        nodes: network.junctions.length,
+        edges: network.edges.length,
+        laneKm: network.edges.reduce((sum, e) => sum + e.lanes.reduce((s, l) => s + l.length, 0), 0) / 1000,
+        junctionTypes: Object.fromEntries(Object.entries(counts).sort((a, b) => b[1] - a[1])),
+        // Several junctions can share one controller, so count programs rather than junctions
+        trafficLights: network.trafficLights.length,
+    };
+};
+
+// Parsed networks are shared by every view that shows the same file
+const cache = new Map<string, Promise<SumoNetwork>>();
+
+export const fetchSumoNetwork = (url: string): Promise<SumoNetwork> => {
+    let pending = cache.get(url);
+    if (!pending) {
+        pending = fetch(url)
+            .then(res => {
+                if (!res.ok) throw new Error(`HTTP ${res.status}`);
+                return res.text();
+            })
+            .then(parseSumoNetwork);
+        pending.catch(() => cache.delete(url)); // Allow a retry
+        cache.set(url, pending);
+    }
+    return pending;
+};
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- AXIS TICKS ---
+
+/** Round step (1, 2 or 5 times a power of ten) giving about `count` intervals over the span. */
+export const niceStep = (span: number, count = 5) => {
+    const raw = span / count || 1;
+    const mag = 10 ** Math.floor(Math.log10(raw));
+    return [1, 2, 5, 10].map(m => m * mag).find(s => s >= raw)!;
+};
+
+/** Multiples of a nice step that fall inside [min, max]. */
+export const niceTicks = (min: number, max: number, count = 5) => {
+    const step = niceStep(max - min, count);
+    const first = Math.ceil(min / step - 1e-9);
+    const last = Math.floor(max / step + 1e-9);
+    // Rounding keeps values like 0.30000000000000004 out of labels
+    const ticks = Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => Number(((first + i) * step).toPrecision(12)));
+    return { step, ticks };
+};
+
+/** Decimals needed to print ticks of this step without noise. */
+export const stepDecimals = (step: number) => Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { beforeEach, test } from 'node:test';
+import { pickKnown, readUrlState, writeUrlState } from './urlState';
+
+// Just enough of window.location and window.history for the query string helpers
+const openPage = (href: string) => {
+    let url = new URL(href);
+    const history = {
+        state: null,
+        replaceState: (_state: unknown, _title: string, next: string | URL) => { url = new URL(next, url); },
+        pushState: (_state: unknown, _title: string, next: string | URL) => { url = new URL(next, url); },
+    };
+    const location = {
+        get href() { return url.href; },
+        get search() { return url.search; },
+        get hash() { return url.hash; },
+    };
+    Object.assign(globalThis, { window: { location, history } });
+};
+
+beforeEach(() => openPage('https://urb.example/?utm=1#results'));
+
+test('written state reads back the same', () => {
+    const state = { release: 'neurips-2025', view: 'leaderboard', network: 'provins', metric: 'dt_hdv', networks: ['provins', 'ingolstadt'], families: ['baseline'] };
+    writeUrlState(state);
+    assert.deepEqual(readUrlState(), state);
+});
+
+test('undefined and empty values are dropped, other parameters and the hash kept', () => {
+    writeUrlState({ network: 'provins', networks: ['provins'] });
+    writeUrlState({ metric: 't_cav', networks: [] });
+    assert.deepEqual(readUrlState(), { metric: 't_cav' });
+    assert.equal(window.location.href, 'https://urb.example/?utm=1&metric=t_cav#results');
+});
+
+test('lists keep their commas readable', () => {
+    writeUrlState({ networks: ['saint_arnoult', 'provins'] });
+    assert.match(window.location.href, /networks=saint_arnoult,provins/);
+});
+
+test('unknown values are filtered out', () => {
+    const views = ['chart', 'heatmap'] as const;
+    assert.deepEqual(pickKnown(['heatmap', 'pie'], views), ['heatmap']);
+    assert.equal(pickKnown(['pie'], views), undefined);
+    assert.equal(pickKnown(undefined, views), undefined);
+});
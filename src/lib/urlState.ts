@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- SHAREABLE URL STATE ---
+// The results view lives in the query string (?network=provins&metric=t_cav),
+// the current section in the hash (#results). Values are untrusted: callers
+// check them against the registries before use.
+
+export interface ResultsUrlState {
+    release?: string;
+    view?: string;
+    network?: string;
+    metric?: string;
+    networks?: string[]; // Leaderboard network filter
+    families?: string[]; // Algorithm family filter
+}
+
+const LIST_KEYS = ['networks', 'families'] as const;
+const SCALAR_KEYS = ['release', 'view', 'network', 'metric'] as const;
+
+export const readUrlState = (): ResultsUrlState => {
+    const params = new URLSearchParams(window.location.search);
+    const state: ResultsUrlState = {};
+    SCALAR_KEYS.forEach(key => {
+        const value = params.get(key);
+        if (value) state[key] = value;
+    });
+    LIST_KEYS.forEach(key => {
+        const value = params.get(key);
+        if (value) state[key] = value.split(',').filter(Boolean);
+    });
+    return state;
+};
+
+/** Replace the query string without adding history entries; undefined keys are removed. */
+export const writeUrlState = (state: ResultsUrlState) => {
+    const url = new URL(window.location.href);
+    SCALAR_KEYS.forEach(key => {
+        const value = state[key];
+        if (value) url.searchParams.set(key, value);
+        else url.searchParams.delete(key);
+    });
+    LIST_KEYS.forEach(key => {
+        const value = state[key];
+        if (value && value.length > 0) url.searchParams.set(key, value.join(','));
+        else url.searchParams.delete(key);
+    });
+    // Keep commas readable in shared links
+    const next = url.toString().replace(/%2C/g, ',');
+    if (next !== window.location.href) window.history.replaceState(window.history.state, '', next);
+};
+
+/** Point the hash at a section; push adds a history entry, e.g. for nav clicks. */
+export const setSectionHash = (id: string, push = false) => {
+    const url = new URL(window.location.href);
+    url.hash = id;
+    if (url.toString() === window.location.href) return;
+    if (push) window.history.pushState(window.history.state, '', url);
+    else window.history.replaceState(window.history.state, '', url);
+};
+
+export const getSectionHash = () => decodeURIComponent(window.location.hash.slice(1));
+
+/** Drop values that are not in the allowed list; undefined if nothing valid remains. */
+export const pickKnown = <T extends string>(values: string[] | undefined, allowed: readonly T[]): T[] | undefined => {
+    const known = values?.filter((v): v is T => (allowed as readonly string[]).includes(v));
+    return known && known.length > 0 ? known : undefined;
+};
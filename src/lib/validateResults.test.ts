@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { RELEASES } from '../data/releases';
+import { formatValidationErrors, validateResultsFile } from './validateResults';
+
+const minutes = (value: number, seeds?: number[]) => ({ value, unit: 'min', ...(seeds && { seeds }) });
+
+const resultsFile = (entries: unknown[]) => ({
+    schemaVersion: 3,
+    release: 'test',
+    source: 'unit test',
+    networks: { provins: {} },
+    entries,
+});
+
+const paths = (input: unknown) => validateResultsFile(input).errors.map(e => e.path);
+
+test('every published release is valid', () => {
+    RELEASES.forEach(release => {
+        const { valid, errors } = validateResultsFile(release.results);
+        assert.ok(valid, formatValidationErrors(errors, release.id));
+    });
+});
+
+test('a valid file comes back typed', () => {
+    const input = resultsFile([{ network: 'provins', algorithm: 'qmix', metrics: { t_cav: minutes(3.5, [3.4, 3.6]) } }]);
+    const result = validateResultsFile(input);
+    assert.deepEqual(result, { valid: true, errors: [], results: input });
+});
+
+test('errors point at the offending field', () => {
+    assert.deepEqual(paths(resultsFile([
+        { network: 'paris', algorithm: 'qmix', metrics: { t_cav: minutes(3) } },
+        { network: 'provins', algorithm: 'qmix', metrics: { t_cav: { value: 3, unit: 's' } } },
+        { network: 'provins', algorithm: 'ippo', metrics: { t_cav: minutes(3, [3, 4]), win_rate: { value: 120, unit: '%' } } },
+        { network: 'provins', algorithm: 'qmix', metrics: { dt_hdv: minutes(0.1) }, colour: 'blue' },
+    ])), [
+        'entries[0].network',
+        'entries[1].metrics.t_cav.unit',
+        'entries[2].metrics.t_cav.seeds',
+        'entries[2].metrics.win_rate.value',
+        'entries[3].colour',
+        'entries[3].metrics.t_cav',
+        'entries[3]',
+    ]);
+});
+
+test('a non-object file is reported at the root', () => {
+    const { valid, errors } = validateResultsFile([]);
+    assert.equal(valid, false);
+    assert.equal(formatValidationErrors(errors, 'upload.json'), 'upload.json: (root): results file must be a JSON object, got array');
+});
+
+test('only human drivers may report t_pre in place of t_CAV', () => {
+    assert.deepEqual(paths(resultsFile([
+        { network: 'provins', algorithm: 'human', metrics: { t_pre: minutes(3.2) } },
+        { network: 'provins', algorithm: 'qmix', metrics: { t_pre: minutes(3.2) } },
+    ])), ['entries[1].metrics.t_cav']);
+});
@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FAMILY_LABELS, getAlgorithm } from '../data/algorithms';
+import { METRICS, MetricInfo, getMetric } from '../data/metrics';
+import { NETWORKS } from '../data/networks';
+import { HUMAN_BASELINE, RESULTS_SCHEMA_VERSION, ResultsFile } from '../data/results';
+import { mean } from './stats';
+
+// --- RESULTS FILE VALIDATION ---
+// Runs in the browser and in scripts/validate-results.ts, so it must not touch Node APIs.
+
+export interface ValidationError {
+    path: string; // e.g. entries[3].metrics.t_cav.unit
+    message: string;
+}
+
+export interface ValidationResult {
+    valid: boolean;
+    errors: ValidationError[];
+    results?: ResultsFile; // Set only when valid
+}
+
+type Json = Record<string, unknown>;
+
+const ID_PATTERN = /^[a-z0-9_]+$/;
+
+const isObject = (value: unknown): value is Json =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const childPath = (parent: string, key: string | number) =>
+    typeof key === 'number' ? `${parent}[${key}]` : parent ? `${parent}.${key}` : key;
+
+const createCollector = () => {
+    const errors: ValidationError[] = [];
+
+    const add = (path: string, message: string) => {
+        errors.push({ path: path || '(root)', message });
+    };
+
+    return {
+        errors,
+        add,
+
+        /** Report keys that are not part of the schema. */
+        unknownKeys: (obj: Json, path: string, allowed: string[]) => {
+            Object.keys(obj)
+                .filter(key => !allowed.includes(key))
+                .forEach(key => add(childPath(path, key), `unknown field "${key}"; expected one of ${allowed.join(', ')}`));
+        },
+
+        string: (obj: Json, key: string, path: string, optional = false): string | undefined => {
+            const value = obj[key];
+            if (value === undefined && optional) return undefined;
+            if (typeof value !== 'string' || value.trim() === '') {
+                add(childPath(path, key), value === undefined ? 'is required' : `must be a non-empty string, got ${describe(value)}`);
+                return undefined;
+            }
+            return value;
+        },
+
+        finiteNumber: (value: unknown, path: string): number | undefined => {
+            if (typeof value !== 'number') {
+                add(path, value === undefined ? 'is required' : `must be a number, got ${describe(value)}`);
+                return undefined;
+            }
+            if (!Number.isFinite(value)) {
+                add(path, `must be finite, got ${value}`);
+                return undefined;
+            }
+            return value;
+        },
+    };
+};
+
+type Collector = ReturnType<typeof createCollector>;
+
+const validateAlgorithms = (input: unknown, c: Collector): Set<string> => {
+    const declared = new Set<string>();
+    if (input === undefined) return declared;
+    if (!isObject(input)) {
+        c.add('algorithms', `must be an object keyed by algorithm id, got ${describe(input)}`);
+        return declared;
+    }
+
+    Object.entries(input).forEach(([id, decl]) => {
+        const path = childPath('algorithms', id);
+        if (!ID_PATTERN.test(id)) c.add(path, `algorithm id "${id}" must match ${ID_PATTERN}`);
+        if (getAlgorithm(id)) c.add(path, `"${id}" is a built-in algorithm and must not be redeclared`);
+        if (!isObject(decl)) {
+            c.add(path, `must be an object, got ${describe(decl)}`);
+            return;
+        }
+        c.unknownKeys(decl, path, ['label', 'family']);
+        c.string(decl, 'label', path);
+        if (!Object.keys(FAMILY_LABELS).includes(decl.family as string)) {
+            c.add(childPath(path, 'family'), `must be one of ${Object.keys(FAMILY_LABELS).join(', ')}, got ${JSON.stringify(decl.family)}`);
+        }
+        declared.add(id);
+    });
+    return declared;
+};
+
+const validateNetworkId = (id: unknown, path: string, c: Collector) => {
+    if (typeof id !== 'string') {
+        c.add(path, id === undefined ? 'is required' : `must be a network id string, got ${describe(id)}`);
+        return false;
+    }
+    if (!NETWORKS.some(n => n.id === id)) {
+        c.add(path, `unknown network "${id}"; expected one of ${NETWORKS.map(n => n.id).join(', ')}`);
+        return false;
+    }
+    return true;
+};
+
+const validateNetworks = (input: unknown, c: Collector) => {
+    if (!isObject(input)) {
+        c.add('networks', input === undefined ? 'is required' : `must be an object keyed by network id, got ${describe(input)}`);
+        return;
+    }
+
+    Object.entries(input).forEach(([id, summary]) => {
+        const path = childPath('networks', id);
+        validateNetworkId(id, path, c);
+        if (!isObject(summary)) {
+            c.add(path, `must be an object, got ${describe(summary)}`);
+            return;
+        }
+        c.unknownKeys(summary, path, ['note']);
+        c.string(summary, 'note', path, true);
+    });
+};
+
+const validateSeeds = (input: unknown, value: number | undefined, metric: MetricInfo, path: string, inRange: (v: number, path: string) => void, c: Collector) => {
+    if (!Array.isArray(input) || input.length === 0) {
+        c.add(path, `must be a non-empty array of per-seed values, got ${describe(input)}`);
+        return;
+    }
+    const seeds = input.map((v, i) => c.finiteNumber(v, childPath(path, i)));
+    if (seeds.some(v => v === undefined)) return;
+    seeds.forEach((v, i) => inRange(v!, childPath(path, i)));
+
+    // The reported value is the mean over seeds, up to the metric's published rounding
+    const seedMean = mean(seeds as number[]);
+    if (value !== undefined && Math.abs(seedMean - value) > 0.5 * 10 ** -metric.decimals + 1e-9) {
+        c.add(path, `mean of ${seeds.length} seeds is ${seedMean.toFixed(4)}, which does not match value ${value}`);
+    }
+};
+
+const validateMetrics = (input: unknown, algorithm: string | undefined, path: string, c: Collector) => {
+    if (!isObject(input)) {
+        c.add(path, input === undefined ? 'is required' : `must be an object keyed by metric id, got ${describe(input)}`);
+        return;
+    }
+
+    // The human baseline may report a required metric's human reference instead, e.g. t_pre for t_CAV
+    METRICS.filter(m => m.required && !(m.id in input)).forEach(m => {
+        const reference = algorithm === HUMAN_BASELINE ? m.humanReference : undefined;
+        if (reference === undefined || !(reference in input)) c.add(childPath(path, m.id), `missing required metric ${m.symbol} (${m.label})`);
+    });
+
+    Object.entries(input).forEach(([id, metricValue]) => {
+        const metricPath = childPath(path, id);
+        const metric = getMetric(id);
+        if (!metric) {
+            c.add(metricPath, `unknown metric "${id}"; expected one of ${METRICS.map(m => m.id).join(', ')}`);
+            return;
+        }
+        if (!isObject(metricValue)) {
+            c.add(metricPath, `must be an object with value and unit, got ${describe(metricValue)}`);
+            return;
+        }
+        c.unknownKeys(metricValue, metricPath, ['value', 'unit', 'seeds']);
+        const inRange = (v: number, p: string) => {
+            if (metric.range && (v < metric.range[0] || v > metric.range[1])) {
+                c.add(p, `${metric.symbol} must be between ${metric.range[0]} and ${metric.range[1]}, got ${v}`);
+            }
+        };
+        const value = c.finiteNumber(metricValue.value, childPath(metricPath, 'value'));
+        if (value !== undefined) inRange(value, childPath(metricPath, 'value'));
+        if (metricValue.unit !== metric.unit) {
+            c.add(childPath(metricPath, 'unit'), `${metric.symbol} must be reported in "${metric.unit}", got ${JSON.stringify(metricValue.unit)}`);
+        }
+        if (metricValue.seeds !== undefined) validateSeeds(metricValue.seeds, value, metric, childPath(metricPath, 'seeds'), inRange, c);
+    });
+};
+
+const validateEntries = (input: unknown, declared: Set<string>, c: Collector) => {
+    if (!Array.isArray(input)) {
+        c.add('entries', input === undefined ? 'is required' : `must be an array, got ${describe(input)}`);
+        return;
+    }
+    if (input.length === 0) c.add('entries', 'must contain at least one entry');
+
+    const seen = new Map<string, number>();
+    input.forEach((entry, i) => {
+        const path = childPath('entries', i);
+        if (!isObject(entry)) {
+            c.add(path, `must be an object, got ${describe(entry)}`);
+            return;
+        }
+        c.unknownKeys(entry, path, ['network', 'algorithm', 'metrics', 'note']);
+
+        const networkOk = validateNetworkId(entry.network, childPath(path, 'network'), c);
+        const algorithm = c.string(entry, 'algorithm', path);
+        if (algorithm !== undefined && !getAlgorithm(algorithm) && !declared.has(algorithm)) {
+            c.add(childPath(path, 'algorithm'), `unknown algorithm "${algorithm}"; declare it under "algorithms" with a label and family`);
+        }
+        validateMetrics(entry.metrics, algorithm, childPath(path, 'metrics'), c);
+        c.string(entry, 'note', path, true);
+
+        if (networkOk && algorithm !== undefined) {
+            const key = `${entry.network}/${algorithm}`;
+            const first = seen.get(key);
+            if (first !== undefined) {
+                c.add(path, `duplicate entry for ${key}; already reported at entries[${first}]`);
+            } else {
+                seen.set(key, i);
+            }
+        }
+    });
+};
+
+/** Check an untrusted, already-parsed results file against the schema. */
+export const validateResultsFile = (input: unknown): ValidationResult => {
+    const c = createCollector();
+
+    if (!isObject(input)) {
+        c.add('', `results file must be a JSON object, got ${describe(input)}`);
+        return { valid: false, errors: c.errors };
+    }
+
+    c.unknownKeys(input, '', ['schemaVersion', 'release', 'source', 'algorithms', 'networks', 'entries']);
+    if (input.schemaVersion !== RESULTS_SCHEMA_VERSION) {
+        c.add('schemaVersion', `must be ${RESULTS_SCHEMA_VERSION}, got ${JSON.stringify(input.schemaVersion)}`);
+    }
+    c.string(input, 'release', '');
+    c.string(input, 'source', '');
+    const declared = validateAlgorithms(input.algorithms, c);
+    validateNetworks(input.networks, c);
+    validateEntries(input.entries, declared, c);
+
+    const valid = c.errors.length === 0;
+    return { valid, errors: c.errors, results: valid ? input as unknown as ResultsFile : undefined };
+};
+
+/** One line per error, suitable for terminals and PR comments. */
+export const formatValidationErrors = (errors: ValidationError[], source = 'results') =>
+    errors.map(e => `${source}: ${e.path}: ${e.message}`).join('\n');
@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Provided by scripts/vite-plugin-remote-assets.ts: remote URL to vendored copies
+declare module 'virtual:remote-assets' {
+    const assets: Record<string, import('./assets').VendoredAsset>;
+    export default assets;
+}
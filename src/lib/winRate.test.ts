@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { getMetric } from '../data/metrics';
+import { ResultEntry, ResultsFile } from '../data/results';
+import { computeWinRate } from './winRate';
+
+const T_CAV = getMetric('t_cav')!;
+
+const entry = (algorithm: string, metric: string, value: number, seeds?: number[]): ResultEntry =>
+    ({ network: 'provins', algorithm, metrics: { [metric]: { value, unit: 'min', ...(seeds && { seeds }) } } });
+
+const QMIX = entry('qmix', 't_cav', 9.33, [9, 11, 8]);
+
+const RESULTS: ResultsFile = {
+    schemaVersion: 3,
+    release: 'test',
+    source: 'unit test',
+    networks: {},
+    entries: [entry('human', 't_pre', 10), entry('aon', 't_cav', 9, [10, 10, 7]), QMIX],
+};
+
+test('each seed is compared with the baseline mean', () => {
+    const rate = computeWinRate(RESULTS, QMIX, T_CAV, { baseline: 'human', definition: 'mean', threshold: 0 })!;
+    assert.deepEqual(rate.outcomes.map(o => o.win), [true, false, true]);
+    assert.deepEqual(rate.outcomes.map(o => o.reference), [10, 10, 10]);
+    assert.equal(rate.wins, 2);
+    assert.equal(rate.runs, 3);
+    assert.ok(Math.abs(rate.rate - 200 / 3) < 1e-9);
+});
+
+test('a threshold asks for a margin over the baseline', () => {
+    const rate = computeWinRate(RESULTS, QMIX, T_CAV, { baseline: 'human', definition: 'mean', threshold: 0.15 })!;
+    assert.equal(rate.wins, 1);
+});
+
+test('paired runs compare seed i with baseline seed i', () => {
+    const rate = computeWinRate(RESULTS, QMIX, T_CAV, { baseline: 'aon', definition: 'paired', threshold: 0 })!;
+    assert.equal(rate.paired, true);
+    assert.deepEqual(rate.outcomes.map(o => o.reference), [10, 10, 7]);
+    assert.equal(rate.wins, 1);
+});
+
+test('pairing falls back to the mean when the seeds do not line up', () => {
+    const rate = computeWinRate(RESULTS, QMIX, T_CAV, { baseline: 'human', definition: 'paired', threshold: 0 })!;
+    assert.equal(rate.paired, false);
+    assert.equal(rate.wins, 2);
+});
+
+test('no rate without per-seed values or a baseline', () => {
+    const options = { baseline: 'human', definition: 'mean', threshold: 0 } as const;
+    assert.equal(computeWinRate(RESULTS, entry('ippo', 't_cav', 9), T_CAV, options), undefined);
+    assert.equal(computeWinRate(RESULTS, QMIX, T_CAV, { ...options, baseline: 'random' }), undefined);
+});
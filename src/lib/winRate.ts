@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ALGORITHMS } from '../data/algorithms';
+import { MetricInfo } from '../data/metrics';
+import { MetricValue, ResultEntry, ResultsFile, getReferenceResult } from '../data/results';
+import { mean } from './stats';
+
+// --- WIN RATE ---
+// Share of an algorithm's runs (seeds) in which the CAVs beat a baseline on the
+// same network. Computed from the per-seed values in the results file; without them
+// only the win rate reported with the results can be shown.
+
+/** mean: every seed against the baseline's mean; paired: seed i against baseline seed i. */
+export type WinDefinition = 'mean' | 'paired';
+
+export const WIN_DEFINITIONS: Record<WinDefinition, string> = {
+    mean: 'vs. baseline mean',
+    paired: 'seed-paired',
+};
+
+// Wins are decided on CAV travel time, as in the paper
+export const WIN_METRIC = 't_cav';
+
+// Baselines a win rate can be computed against, in display order
+export const WIN_BASELINES = ALGORITHMS.filter(a => a.family === 'baseline').map(a => a.id);
+
+// Relative margins a run must beat the baseline by
+export const WIN_THRESHOLDS = [0, 0.01, 0.02, 0.05];
+
+export interface WinRateOptions {
+    baseline: string;
+    definition: WinDefinition;
+    threshold: number; // e.g. 0.01 = must be more than 1% better
+}
+
+export interface RunOutcome {
+    value: number;
+    reference: number; // Baseline value this run was compared with
+    improvement: number; // Relative, positive = better than the baseline
+    win: boolean;
+}
+
+export interface WinRate {
+    wins: number;
+    runs: number;
+    rate: number; // Percent
+    paired: boolean; // False when pairing was asked for but the seeds do not line up
+    outcomes: RunOutcome[];
+}
+
+const valuesOf = (m: MetricValue) => m.seeds && m.seeds.length > 0 ? m.seeds : [m.value];
+
+/** Whether the entry publishes the per-seed values a win rate is computed from. */
+export const hasSeedValues = (entry: ResultEntry, metricId: string) => (entry.metrics[metricId]?.seeds?.length ?? 0) > 0;
+
+/**
+ * Undefined when the entry has no per-seed values, since a single mean is not a rate,
+ * or when the baseline on its network does not report the metric.
+ */
+export const computeWinRate = (results: ResultsFile, entry: ResultEntry, metric: MetricInfo, options: WinRateOptions): WinRate | undefined => {
+    const reference = results.entries.find(e => e.network === entry.network && e.algorithm === options.baseline);
+    const baseResult = reference && getReferenceResult(reference, metric.id);
+    if (!hasSeedValues(entry, metric.id) || !baseResult) return undefined;
+
+    const values = valuesOf(entry.metrics[metric.id]);
+    const baseValues = valuesOf(baseResult.result);
+    const paired = options.definition === 'paired' && values.length > 1 && values.length === baseValues.length;
+    const baseMean = mean(baseValues);
+
+    const outcomes = values.map((value, i) => {
+        const ref = paired ? baseValues[i] : baseMean;
+        const gap = ref === 0 ? 0 : (value - ref) / Math.abs(ref);
+        const improvement = metric.direction === 'lower' ? -gap : gap;
+        return { value, reference: ref, improvement, win: improvement > options.threshold };
+    });
+    const wins = outcomes.filter(o => o.win).length;
+
+    return { wins, runs: outcomes.length, rate: (wins / outcomes.length) * 100, paired, outcomes };
+};
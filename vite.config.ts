@@ -1,7 +1,9 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { REMOTE_ASSETS } from './src/data/assets'
+import { remoteAssets } from './scripts/vite-plugin-remote-assets'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), remoteAssets(REMOTE_ASSETS)],
   base: '/',  // correct for custom domains
 })